@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import BasicAuthStrategy from '../src/BasicAuthStrategy.js';
+import { authContext, response } from './helpers.js';
+
+describe('BasicAuthStrategy', () => {
+  test('detects any 401', () => {
+    const strategy = new BasicAuthStrategy();
+    expect(strategy.detectChallenge(response(401))).toBe(true);
+    expect(strategy.detectChallenge(response(403))).toBe(false);
+  });
+
+  test('sends the credentials to the challenging server once challenged', async () => {
+    const strategy = new BasicAuthStrategy();
+    const context = authContext();
+    const request = (url: string) => ({ url, headers: {} }) as any;
+    expect(strategy.decorateRequest(request('https://jazz.example/ccm/x'), context).auth).toBeUndefined();
+    await strategy.authenticate(response(401));
+    expect(strategy.decorateRequest(request('https://jazz.example/rm/y'), context).auth).toEqual({ username: 'alice', password: 'secret' });
+    expect(strategy.decorateRequest(request('https://evil.example/ccm/x'), context).auth).toBeUndefined();
+  });
+
+  test('restores the challenged servers of a session', () => {
+    const strategy = new BasicAuthStrategy();
+    strategy.restoreState({ origins: ['https://jazz.example'] });
+    expect(strategy.exportState()).toEqual({ origins: ['https://jazz.example'] });
+  });
+});
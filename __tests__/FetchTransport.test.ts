@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'vitest';
+import FetchTransport from '../src/FetchTransport.js';
+
+describe('FetchTransport', () => {
+  function transport(redirects: Record<string, string>) {
+    const sent: { url: string; headers: Record<string, string> }[] = [];
+    const fetchFunction = async (url: string | URL | Request, init?: RequestInit) => {
+      sent.push({ url: String(url), headers: init?.headers as Record<string, string> });
+      const location = redirects[String(url)];
+      const headers = new Headers(location ? { location } : {});
+      if (!location) headers.append('set-cookie', 'JSESSIONID=abc; Path=/');
+      return new Response(location ? null : 'ok', { status: location ? 302 : 200, headers });
+    };
+    return { sent, transport: new FetchTransport({}, fetchFunction as typeof fetch) };
+  }
+
+  const headers = {
+    Authorization: 'Basic c2VjcmV0',
+    'proxy-authorization': 'Basic cHJveHk=',
+    Cookie: 'LtpaToken2=xyz',
+    Accept: 'text/turtle',
+  };
+
+  test('keeps the credentials on a redirect within the origin', async () => {
+    const { sent, transport: fetchTransport } = transport({
+      'https://jazz.example/ccm/a': 'https://jazz.example/ccm/b',
+    });
+    const response = await fetchTransport.request({ method: 'GET', url: 'https://jazz.example/ccm/a', headers });
+    expect(response.body).toBe('ok');
+    expect(sent.map((request) => request.url)).toEqual(['https://jazz.example/ccm/a', 'https://jazz.example/ccm/b']);
+    expect(sent[1].headers).toEqual(headers);
+  });
+
+  test('drops the credentials when a redirect leaves the origin', async () => {
+    const { sent, transport: fetchTransport } = transport({
+      'https://jazz.example/ccm/a': 'https://evil.example/b',
+      'https://evil.example/b': 'https://jazz.example/ccm/c',
+    });
+    await fetchTransport.request({ method: 'GET', url: 'https://jazz.example/ccm/a', headers });
+    expect(sent[1].headers).toEqual({ Accept: 'text/turtle' });
+    // Back on the original origin the request's headers are sent again
+    expect(sent[2].headers).toEqual(headers);
+  });
+});
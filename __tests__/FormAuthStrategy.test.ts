@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'vitest';
+import FormAuthStrategy from '../src/FormAuthStrategy.js';
+import { authContext, response } from './helpers.js';
+
+describe('FormAuthStrategy', () => {
+  test('detects the Jazz authrequired header', () => {
+    const strategy = new FormAuthStrategy();
+    expect(strategy.detectChallenge(response(200, { 'x-com-ibm-team-repository-web-auth-msg': 'authrequired' }))).toBe(true);
+    expect(strategy.detectChallenge(response(200))).toBe(false);
+    expect(strategy.detectChallenge(response(401))).toBe(false);
+  });
+
+  test('posts the credentials to the application j_security_check', async () => {
+    const context = authContext();
+    await new FormAuthStrategy().authenticate(response(200, {}, 'https://jazz.example/ccm/oslc/workitems/1'), context);
+    expect(context.calls).toHaveLength(1);
+    expect(context.calls[0].url).toBe('https://jazz.example/ccm/j_security_check');
+    expect(new URLSearchParams(context.calls[0].body as string).get('j_username')).toBe('alice');
+    expect(new URLSearchParams(context.calls[0].body as string).get('j_password')).toBe('secret');
+  });
+});
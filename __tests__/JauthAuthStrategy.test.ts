@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import JauthAuthStrategy from '../src/JauthAuthStrategy.js';
+import { authContext, response } from './helpers.js';
+
+const challenge = 'jauth realm="jts", token_uri="https://jazz.example/jts/jauth-issue-token"';
+
+describe('JauthAuthStrategy', () => {
+  test('detects a 401 with a jauth realm', () => {
+    const strategy = new JauthAuthStrategy();
+    expect(strategy.detectChallenge(response(401, { 'www-authenticate': challenge }))).toBe(true);
+    expect(strategy.detectChallenge(response(401, { 'www-authenticate': 'Basic realm="x"' }))).toBe(false);
+    expect(strategy.detectChallenge(response(401))).toBe(false);
+  });
+
+  test('gets a token from the token_uri and sends it as a bearer token', async () => {
+    const strategy = new JauthAuthStrategy();
+    const context = authContext('token-1');
+    await strategy.authenticate(response(401, { 'www-authenticate': challenge }), context);
+    expect(context.calls[0].url).toBe('https://jazz.example/jts/jauth-issue-token');
+    expect(new URLSearchParams(context.calls[0].body as string).get('username')).toBe('alice');
+    const request = strategy.decorateRequest({ url: 'https://jazz.example/ccm/x', headers: {} } as any);
+    expect(request.headers['Authorization']).toBe('Bearer token-1');
+    const elsewhere = strategy.decorateRequest({ url: 'https://evil.example/x', headers: {} } as any);
+    expect(elsewhere.headers['Authorization']).toBeUndefined();
+  });
+
+  test('fails without a token_uri', async () => {
+    const strategy = new JauthAuthStrategy();
+    await expect(strategy.authenticate(response(401, { 'www-authenticate': 'jauth realm="jts"' }), authContext())).rejects.toThrow(
+      'token_uri'
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, test, vi } from 'vitest';
+import LinkPreviewResolver from '../src/LinkPreviewResolver.js';
+import OSLCClient from '../src/OSLCClient.js';
+import { FakeTransport } from './helpers.js';
+
+const url = 'https://jazz.example/ccm/resource/1';
+
+describe('LinkPreviewResolver', () => {
+  test('falls back to the resource without logging an error when the server has no Compact support', async () => {
+    const transport = new FakeTransport((request) =>
+      request.headers['Accept'] === 'application/x-oslc-compact+xml'
+        ? { status: 406, statusText: 'Not Acceptable' }
+        : {
+            headers: { 'content-type': 'text/turtle' },
+            body: `<${url}> <http://purl.org/dc/terms/title> "Resource 1".`,
+          }
+    );
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false, logger });
+    const preview = await new LinkPreviewResolver(client).resolve(url);
+
+    expect(preview).toMatchObject({ url, title: 'Resource 1', source: 'resource' });
+    expect(transport.requests).toHaveLength(2);
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'vitest';
+import OAuth1AuthStrategy from '../src/OAuth1AuthStrategy.js';
+import { authContext, response } from './helpers.js';
+
+const endpoints = {
+  requestTokenUrl: 'https://jazz.example/jts/oauth-request-token',
+  userAuthorizationUrl: 'https://jazz.example/jts/oauth-authorize',
+  accessTokenUrl: 'https://jazz.example/jts/oauth-access-token',
+};
+
+describe('OAuth1AuthStrategy', () => {
+  test('builds the signature base string of RFC 5849 section 3.4.1.1', () => {
+    const baseString = OAuth1AuthStrategy.signatureBaseString(
+      'POST',
+      'http://example.com/request?b5=%3D%253D&a3=a&c%40=&a2=r%20b',
+      [
+        ['oauth_consumer_key', '9djdj82h48djs9d2'],
+        ['oauth_token', 'kkk9d7dh3k39sjv7'],
+        ['oauth_signature_method', 'HMAC-SHA1'],
+        ['oauth_timestamp', '137131201'],
+        ['oauth_nonce', '7d8f3e4a'],
+        ...new URLSearchParams('c2&a3=2+q').entries(),
+      ]
+    );
+    expect(baseString).toBe(
+      'POST&http%3A%2F%2Fexample.com%2Frequest&a2%3Dr%2520b%26a3%3D2%2520q%26a3%3Da%26b5%3D%253D%25253D%26c%2540%3D' +
+        '%26c2%3D%26oauth_consumer_key%3D9djdj82h48djs9d2%26oauth_nonce%3D7d8f3e4a%26oauth_signature_method%3DHMAC-SHA1' +
+        '%26oauth_timestamp%3D137131201%26oauth_token%3Dkkk9d7dh3k39sjv7'
+    );
+  });
+
+  test('signs the request of RFC 5849 section 1.2', async () => {
+    const baseString = OAuth1AuthStrategy.signatureBaseString('GET', 'http://photos.example.net/photos?file=vacation.jpg&size=original', [
+      ['oauth_consumer_key', 'dpf43f3p2l4k3l03'],
+      ['oauth_token', 'nnch734d00sl2jdk'],
+      ['oauth_signature_method', 'HMAC-SHA1'],
+      ['oauth_timestamp', '137131202'],
+      ['oauth_nonce', 'chapoH'],
+    ]);
+    expect(await OAuth1AuthStrategy.sign(baseString, 'kd94hf93k423kf44', 'pfkkdhi9sl3r4s00')).toBe('MdpQcU8iPSUjWoN/UDMsK2sui9I=');
+  });
+
+  test('detects an OAuth 401 only with an authorize callback', () => {
+    const challenge = response(401, { 'www-authenticate': 'OAuth realm="jazz"' });
+    expect(new OAuth1AuthStrategy({ consumerKey: 'k', consumerSecret: 's' }).detectChallenge(challenge)).toBe(false);
+    const strategy = new OAuth1AuthStrategy({ consumerKey: 'k', consumerSecret: 's', authorize: async () => 'v' });
+    expect(strategy.detectChallenge(challenge)).toBe(true);
+    expect(strategy.detectChallenge(response(401, { 'www-authenticate': 'Basic realm="x"' }))).toBe(false);
+  });
+
+  test('authenticates with the request token, authorization and access token steps', async () => {
+    const authorized: string[] = [];
+    const strategy = new OAuth1AuthStrategy({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      endpoints,
+      authorize: async (url) => (authorized.push(url), 'verifier'),
+    });
+    const context = authContext('oauth_token=request&oauth_token_secret=rs', 'oauth_token=access&oauth_token_secret=as');
+    await strategy.authenticate(response(401, { 'www-authenticate': 'OAuth realm="jazz"' }), context);
+
+    expect(context.calls.map((call) => call.url)).toEqual([endpoints.requestTokenUrl, endpoints.accessTokenUrl]);
+    expect(authorized).toEqual([`${endpoints.userAuthorizationUrl}?oauth_token=request`]);
+    expect(context.calls[1].config.headers.Authorization).toContain('oauth_verifier="verifier"');
+    expect(context.calls[1].config.headers.Authorization).toContain('oauth_token="request"');
+    expect(strategy.token).toEqual({ token: 'access', tokenSecret: 'as' });
+
+    const request = await strategy.decorateRequest({ url: 'https://jazz.example/ccm/x', headers: { getContentType: () => undefined } } as any);
+    expect(request.headers['Authorization']).toMatch(/^OAuth .*oauth_token="access"/);
+  });
+
+  test('sends the token requests with the signal of the challenged request', async () => {
+    const strategy = new OAuth1AuthStrategy({ consumerKey: 'key', consumerSecret: 'secret', endpoints, authorize: async () => '' });
+    const context = authContext('oauth_token=request&oauth_token_secret=rs', 'oauth_token=access&oauth_token_secret=as');
+    const challenge = response(401, { 'www-authenticate': 'OAuth realm="jazz"' });
+    const { signal } = new AbortController();
+    challenge.config.signal = signal;
+    await strategy.authenticate(challenge, context);
+
+    expect(context.calls.map((call) => call.config.signal)).toEqual([signal, signal]);
+  });
+});
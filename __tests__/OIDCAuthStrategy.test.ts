@@ -0,0 +1,84 @@
+import { CanceledError } from 'axios';
+import { describe, expect, test } from 'vitest';
+import OIDCAuthStrategy from '../src/OIDCAuthStrategy.js';
+import { authContext, response } from './helpers.js';
+
+const url = 'https://jazz.example/ccm/oslc/x';
+
+describe('OIDCAuthStrategy', () => {
+  test('detects a 401 with a bearer challenge', () => {
+    const strategy = new OIDCAuthStrategy({ tokenProvider: async () => 't' });
+    expect(strategy.detectChallenge(response(401, { 'www-authenticate': 'Bearer error="invalid_token"' }))).toBe(true);
+    expect(strategy.detectChallenge(response(401, { 'www-authenticate': 'Basic realm="x"' }))).toBe(false);
+  });
+
+  test('authenticates with the client_credentials grant of the issuer token endpoint', async () => {
+    const strategy = new OIDCAuthStrategy({ issuer: 'https://jas.example/oidc/endpoint/jazzop/', clientId: 'id', clientSecret: 'cs' });
+    const context = authContext({ token_endpoint: 'https://jas.example/token' }, { access_token: 'access', expires_in: 3600 });
+    await strategy.authenticate(response(401), context);
+
+    expect(context.calls[0].url).toBe('https://jas.example/oidc/endpoint/jazzop/.well-known/openid-configuration');
+    expect(context.calls[1].url).toBe('https://jas.example/token');
+    expect(new URLSearchParams(context.calls[1].body as string).get('grant_type')).toBe('client_credentials');
+    expect(context.calls[1].config.auth).toEqual({ username: 'id', password: 'cs' });
+    expect(strategy.tokens?.accessToken).toBe('access');
+
+    // The challenging server gets the token, other hosts don't
+    const request = await strategy.decorateRequest({ url, headers: {} } as any, context);
+    expect(request.headers['Authorization']).toBe('Bearer access');
+    const elsewhere = await strategy.decorateRequest({ url: 'https://evil.example/x', headers: {} } as any, context);
+    expect(elsewhere.headers['Authorization']).toBeUndefined();
+    expect(context.calls).toHaveLength(2);
+  });
+
+  test('refreshes an expired token with the refresh_token grant', async () => {
+    const strategy = new OIDCAuthStrategy({
+      tokenEndpoint: 'https://jas.example/token',
+      servers: ['https://jazz.example'],
+      clientId: 'public',
+    });
+    strategy.setTokens({ accessToken: 'old', refreshToken: 'refresh', expiresAt: Date.now() - 1 });
+    const context = authContext({ access_token: 'new' });
+    const request = await strategy.decorateRequest({ url, headers: {} } as any, context);
+
+    const body = new URLSearchParams(context.calls[0].body as string);
+    expect(body.get('grant_type')).toBe('refresh_token');
+    expect(body.get('refresh_token')).toBe('refresh');
+    expect(body.get('client_id')).toBe('public');
+    expect(request.headers['Authorization']).toBe('Bearer new');
+    expect(strategy.tokens?.refreshToken).toBe('refresh');
+  });
+
+  test('sends the token requests with the signal of the request being decorated', async () => {
+    const strategy = new OIDCAuthStrategy({ issuer: 'https://jas.example', clientId: 'id', clientSecret: 'cs' });
+    const context = authContext({ token_endpoint: 'https://jas.example/token' }, { access_token: 'access' });
+    const { signal } = new AbortController();
+    await strategy.decorateRequest({ url: 'https://jas.example/ccm/x', headers: {}, signal } as any, context);
+
+    expect(context.calls.map((call) => call.config.signal)).toEqual([signal, signal]);
+  });
+
+  test('restarts a shared refresh cancelled by another caller', async () => {
+    const strategy = new OIDCAuthStrategy({
+      tokenEndpoint: 'https://jas.example/token',
+      servers: [url],
+      clientId: 'id',
+      clientSecret: 'cs',
+    });
+    const context = authContext();
+    const signals: Array<AbortSignal | undefined> = [];
+    context.client.post = (async (_url: string, _body: string, config: { signal?: AbortSignal }) => {
+      signals.push(config.signal);
+      if (config.signal?.aborted) throw new CanceledError();
+      return { status: 200, data: { access_token: 'access' } };
+    }) as any;
+    const controller = new AbortController();
+    const cancelled = strategy.decorateRequest({ url, headers: {}, signal: controller.signal } as any, context);
+    const waiting = strategy.decorateRequest({ url, headers: {} } as any, context);
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(CanceledError);
+    expect((await waiting).headers['Authorization']).toBe('Bearer access');
+    expect(signals).toEqual([controller.signal, undefined]);
+  });
+});
@@ -0,0 +1,129 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import FileDiscoveryCache from '../src/FileDiscoveryCache.js';
+import MemoryDiscoveryCache from '../src/MemoryDiscoveryCache.js';
+import OSLCClient from '../src/OSLCClient.js';
+import type { DiscoveryCache } from '../src/types.js';
+import { FakeTransport } from './helpers.js';
+
+const server = 'https://jazz.example/ccm';
+const logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+// Serves a rootservices document with an ETag, answering 304 when the client already has it
+function rootServicesServer(title = 'Change Management') {
+  return new FakeTransport((request) =>
+    request.headers['If-None-Match'] === '"1"'
+      ? { status: 304, statusText: 'Not Modified' }
+      : {
+          headers: { 'content-type': 'text/turtle', etag: '"1"' },
+          body: `<${server}/rootservices> <http://purl.org/dc/terms/title> "${title}".`,
+        }
+  );
+}
+
+function client(transport: FakeTransport, discoveryCache: DiscoveryCache, discoveryCacheTTL?: number): OSLCClient {
+  return new OSLCClient({
+    username: 'alice',
+    password: 'secret',
+    transport,
+    retry: false,
+    logger,
+    discoveryCache,
+    discoveryCacheTTL,
+  });
+}
+
+describe('OSLCClient discovery cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('uses a cached document without asking the server while it is fresh', async () => {
+    const cache = new MemoryDiscoveryCache();
+    const transport = rootServicesServer();
+    await client(transport, cache).discover(server);
+    // Another client sharing the cache discovers the server without a request
+    const described = await client(transport, cache).discover(server);
+    expect(described.title).toBe('Change Management');
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  test('revalidates an expired document with If-None-Match and keeps the body on a 304', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new MemoryDiscoveryCache();
+    const transport = rootServicesServer();
+    const oslcClient = client(transport, cache, 1000);
+    await oslcClient.discover(server);
+    expect(transport.requests[0].headers['If-None-Match']).toBeUndefined();
+
+    vi.advanceTimersByTime(500);
+    await oslcClient.discover(server);
+    expect(transport.requests).toHaveLength(1);
+
+    vi.advanceTimersByTime(1000);
+    const described = await oslcClient.discover(server);
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[1].headers['If-None-Match']).toBe('"1"');
+    expect(described.title).toBe('Change Management');
+
+    // The 304 made the document fresh again
+    await oslcClient.discover(server);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  test('reads the server again when the document changed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new MemoryDiscoveryCache();
+    await client(rootServicesServer(), cache, 1000).discover(server);
+
+    vi.advanceTimersByTime(2000);
+    const changed = new FakeTransport(() => ({
+      headers: { 'content-type': 'text/turtle', etag: '"2"' },
+      body: `<${server}/rootservices> <http://purl.org/dc/terms/title> "Engineering Workflow Management".`,
+    }));
+    expect((await client(changed, cache, 1000).discover(server)).title).toBe('Engineering Workflow Management');
+    expect((await cache.get(`alice  ${server}/rootservices`))?.etag).toBe('"2"');
+  });
+});
+
+describe('FileDiscoveryCache', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'oslc-discovery-'));
+    path = join(directory, 'discovery.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('keeps documents for the next process, readable only by the user', async () => {
+    await client(rootServicesServer(), new FileDiscoveryCache(path)).discover(server);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(Object.keys(JSON.parse(await readFile(path, 'utf8')))).toEqual([`alice  ${server}/rootservices`]);
+
+    const transport = rootServicesServer();
+    expect((await client(transport, new FileDiscoveryCache(path)).discover(server)).title).toBe('Change Management');
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  test('rebuilds a missing or damaged file, and clear removes it', async () => {
+    const cache = new FileDiscoveryCache(path);
+    expect(await cache.get('missing')).toBeUndefined();
+    await cache.clear();
+
+    await writeFile(path, '{ not json');
+    const damaged = new FileDiscoveryCache(path);
+    expect(await damaged.get('missing')).toBeUndefined();
+    await damaged.set('key', { url: server, contentType: 'text/turtle', body: '', fetchedAt: 1 });
+    expect(await new FileDiscoveryCache(path).get('key')).toMatchObject({ url: server });
+
+    await damaged.clear();
+    expect(await damaged.get('key')).toBeUndefined();
+    await expect(stat(path)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
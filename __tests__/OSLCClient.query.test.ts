@@ -0,0 +1,270 @@
+import { describe, expect, test } from 'vitest';
+import OSLCClient from '../src/OSLCClient.js';
+import type OSLCResource from '../src/OSLCResource.js';
+import { QueryCapability } from '../src/services.js';
+import type { QueryResult } from '../src/types.js';
+import { documentServer, FakeTransport } from './helpers.js';
+
+const queryBase = 'https://jazz.example/ccm/query';
+
+// Three pages of two members each, 1a and 1b, 2a and 2b, 3a and 3b
+function pagedServer() {
+  return new FakeTransport((request) => {
+    const url = new URL(request.url);
+    const page = Number(url.searchParams.get('page') ?? 1);
+    const nextPage = page < 3 ? `; oslc:nextPage <${queryBase}?page=${page + 1}>` : '';
+    return {
+      headers: { 'content-type': 'text/turtle' },
+      body: `@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+        @prefix dcterms: <http://purl.org/dc/terms/>.
+        @prefix oslc: <http://open-services.net/ns/core#>.
+        <${queryBase}> rdfs:member <${queryBase}/${page}a>, <${queryBase}/${page}b>.
+        <${queryBase}/${page}a> dcterms:title "${page}a".
+        <${queryBase}/${page}b> dcterms:title "${page}b".
+        <${request.url}> a oslc:ResponseInfo; oslc:totalCount 6 ${nextPage}.`,
+    };
+  });
+}
+
+function client(transport: FakeTransport): OSLCClient {
+  return new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false });
+}
+
+// A query capability as a service provider would describe it
+const capability = Object.assign(Object.create(QueryCapability.prototype), {
+  title: 'Work Items',
+  queryBase,
+  resourceShapes: [],
+  usages: [],
+}) as QueryCapability;
+
+const titles = (result: QueryResult) => result.members.map((member) => member.getTitle());
+
+describe('OSLCClient paged queries', () => {
+  test('queryPages reads the pages one at a time', async () => {
+    const transport = pagedServer();
+    const pages: Array<Array<string | undefined>> = [];
+    for await (const page of client(transport).queryPages(capability, { where: 'dcterms:title="x"' }, { pageSize: 2 })) {
+      pages.push(titles(page));
+      expect(page.totalCount).toBe(6);
+    }
+    expect(pages).toEqual([['1a', '1b'], ['2a', '2b'], ['3a', '3b']]);
+    const first = new URL(transport.requests[0].url);
+    expect(first.searchParams.get('oslc.paging')).toBe('true');
+    expect(first.searchParams.get('oslc.pageSize')).toBe('2');
+    expect(first.searchParams.get('oslc.where')).toBe('dcterms:title="x"');
+  });
+
+  test('queryResult stops reading pages at the limit', async () => {
+    const transport = pagedServer();
+    const result = await client(transport).queryResult(capability, {}, { pageSize: 2, limit: 2 });
+    expect(titles(result)).toEqual(['1a', '1b']);
+    expect(transport.requests).toHaveLength(1);
+    expect(result.next).toEqual({ page: `${queryBase}?page=2`, offset: 0 });
+  });
+
+  test('a limit of 0 reads only the total count', async () => {
+    const result = await client(pagedServer()).queryResult(capability, {}, { limit: 0 });
+    expect(result.members).toEqual([]);
+    expect(result.totalCount).toBe(6);
+  });
+
+  test('resuming after a limit that ends partway through a page skips nothing', async () => {
+    const oslcClient = client(pagedServer());
+    const seen: Array<string | undefined> = [];
+    let result = await oslcClient.queryResult(capability, {}, { pageSize: 2, limit: 3 });
+    seen.push(...titles(result));
+    expect(result.next).toEqual({ page: `${queryBase}?page=2`, offset: 1 });
+    while (result.next) {
+      result = await oslcClient.queryResult(capability, {}, { startPage: result.next, limit: 3 });
+      seen.push(...titles(result));
+    }
+    expect(seen).toEqual(['1a', '1b', '2a', '2b', '3a', '3b']);
+  });
+
+  test('queryResources reads every page', async () => {
+    const members = await client(pagedServer()).queryResources(capability, {});
+    expect(members.map((member) => member.getTitle()).sort()).toEqual(['1a', '1b', '2a', '2b', '3a', '3b']);
+  });
+});
+
+// Answers a search with members scored as given, or unscored
+function searchServer(scores: Record<string, number | undefined>) {
+  return new FakeTransport(() => ({
+    headers: { 'content-type': 'text/turtle' },
+    body: `@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+      @prefix dcterms: <http://purl.org/dc/terms/>.
+      @prefix oslc: <http://open-services.net/ns/core#>.
+      ${Object.entries(scores)
+        .map(
+          ([title, score]) =>
+            `<${queryBase}> rdfs:member <${queryBase}/${title}>.
+            <${queryBase}/${title}> dcterms:title "${title}" ${score !== undefined ? `; oslc:score ${score}` : ''}.`
+        )
+        .join('\n')}`,
+  }));
+}
+
+// A query capability that advertises full-text search
+const searchable = Object.assign(Object.create(QueryCapability.prototype), {
+  queryBase,
+  resourceShapes: [],
+  usages: ['http://open-services.net/ns/core#fullTextSearch'],
+}) as QueryCapability;
+
+describe('OSLCClient.search', () => {
+  test('sends the search terms with the caller clauses as they are, and sorts by score', async () => {
+    const transport = searchServer({ low: 0.1, high: 0.9, mid: 0.5 });
+    const result = await client(transport).search(searchable, 'login "time out', { where: 'calm:severity="High"' });
+
+    const url = new URL(transport.requests[0].url);
+    expect(url.searchParams.get('oslc.searchTerms')).toBe('"login","time out"');
+    expect(url.searchParams.get('oslc.where')).toBe('calm:severity="High"');
+    expect(url.searchParams.get('oslc.orderBy')).toBe('-oslc:score');
+    expect(url.searchParams.get('oslc.prefix')).toBe('oslc=<http://open-services.net/ns/core#>');
+    expect(result.hits.map((hit) => [hit.resource.getTitle(), hit.score])).toEqual([
+      ['high', 0.9],
+      ['mid', 0.5],
+      ['low', 0.1],
+    ]);
+    expect(result.ranked).toBe(true);
+  });
+
+  test('keeps the order the caller asked for', async () => {
+    const transport = searchServer({ b: 0.9, a: 0.1 });
+    const result = await client(transport).search(searchable, ['x'], { orderBy: '+dcterms:title' });
+    expect(new URL(transport.requests[0].url).searchParams.get('oslc.orderBy')).toBe('+dcterms:title');
+    expect(new URL(transport.requests[0].url).searchParams.get('oslc.prefix')).toBeNull();
+    expect(result.hits.map((hit) => hit.resource.getTitle())).toEqual(['b', 'a']);
+  });
+
+  test('tells when the server ignored the search terms', async () => {
+    const result = await client(searchServer({ a: undefined, b: undefined })).search(searchable, 'x');
+    expect(result.ranked).toBe(false);
+  });
+
+  test('needs a search term', async () => {
+    await expect(client(searchServer({})).search(searchable, '  ')).rejects.toThrow('at least one search term');
+  });
+  test('is not ranked when nothing is found', async () => {
+    const result = await client(searchServer({})).search(searchable, 'x');
+    expect(result.members).toEqual([]);
+    expect(result.ranked).toBe(false);
+  });
+
+  test('needs a capability that advertises full-text search, unless forced', async () => {
+    const transport = searchServer({ a: 0.5 });
+    await expect(client(transport).search(capability, 'x')).rejects.toThrow('Work Items does not advertise full-text search');
+    expect(transport.requests).toHaveLength(0);
+
+    const result = await client(transport).search(capability, 'x', {}, { force: true });
+    expect(new URL(transport.requests[0].url).searchParams.get('oslc.searchTerms')).toBe('"x"');
+    expect(result.ranked).toBe(true);
+  });
+});
+
+describe('OSLCClient query members', () => {
+  const shapeURL = 'https://jazz.example/ccm/shapes/results';
+  const ex = 'http://example.com/ns#';
+
+  test('finds members linked with ldp:contains', async () => {
+    const transport = documentServer({
+      [queryBase]: `<${queryBase}> <http://www.w3.org/ns/ldp#contains> <${queryBase}/1>, <${queryBase}/2>.
+        <${queryBase}/1> dcterms:title "one".
+        <${queryBase}/2> dcterms:title "two".`,
+    });
+    const members = await client(transport).queryResources(capability, {});
+    expect(members.map((member) => member.getTitle()).sort()).toEqual(['one', 'two']);
+  });
+
+  test("uses the oslc:isMemberProperty of the capability's shape", async () => {
+    const transport = documentServer({
+      [shapeURL]: `<${shapeURL}> a oslc:ResourceShape; oslc:property [
+          oslc:propertyDefinition <${ex}workItem>; oslc:isMemberProperty true ].`,
+      // Without the shape, ex:related linking to more resources would look like the member predicate
+      [queryBase]: `<${queryBase}> <${ex}workItem> <${queryBase}/1>;
+          <${ex}related> <https://jazz.example/a>, <https://jazz.example/b>.
+        <${queryBase}/1> dcterms:title "one".`,
+    });
+    const shaped = Object.assign(Object.create(QueryCapability.prototype), {
+      queryBase,
+      resourceShapes: [shapeURL],
+      usages: [],
+    }) as QueryCapability;
+    const members = await client(transport).queryResources(shaped, {});
+    expect(members.map((member) => member.getURI())).toEqual([`${queryBase}/1`]);
+
+    const guessed = await client(transport).queryResources(capability, {});
+    expect(guessed.map((member) => member.getURI()).sort()).toEqual([
+      'https://jazz.example/a',
+      'https://jazz.example/b',
+    ]);
+  });
+
+  test("gives each member the blank nodes it links to, but not the other members' statements", async () => {
+    const transport = documentServer({
+      [queryBase]: `@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+        @prefix foaf: <http://xmlns.com/foaf/0.1/>.
+        <${queryBase}> rdfs:member <${queryBase}/1>, <${queryBase}/2>.
+        <${queryBase}/1> dcterms:title "one";
+          dcterms:creator [ foaf:name "Alice"; foaf:based_near [ dcterms:title "Ottawa" ] ];
+          dcterms:relation <${queryBase}/2>.
+        <${queryBase}/2> dcterms:title "two".`,
+    });
+    const members = await client(transport).queryResources(capability, {});
+    const [one, two] = members.sort((a, b) => a.getURI().localeCompare(b.getURI()));
+    const values = (member: OSLCResource) => member.store.statements.map((statement) => statement.object.value);
+
+    expect(values(one)).toEqual(expect.arrayContaining(['one', 'Alice', 'Ottawa', `${queryBase}/2`]));
+    expect(values(one)).not.toContain('two');
+    expect(values(two)).toEqual(['two']);
+  });
+});
+
+describe('OSLCClient query response info', () => {
+  // Answers with two members, and the given description of the results, `<page>` standing for the page URL
+  function infoServer(info: string) {
+    return new FakeTransport((request) => ({
+      headers: { 'content-type': 'text/turtle' },
+      body: `@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+        @prefix dcterms: <http://purl.org/dc/terms/>.
+        @prefix oslc: <http://open-services.net/ns/core#>.
+        <${queryBase}> rdfs:member <${queryBase}/1>, <${queryBase}/2>.
+        ${info.replaceAll('<page>', `<${request.url}>`)}`,
+    }));
+  }
+
+  test('reads the oslc:ResponseInfo of the page', async () => {
+    const transport = infoServer(`<page> a oslc:ResponseInfo; dcterms:title "Open defects";
+      dcterms:description "Defects nobody fixed yet"; oslc:totalCount "42";
+      oslc:nextPage <${queryBase}?page=2>; oslc:message "Some results were left out".`);
+    const result = await client(transport).queryResult(capability, {}, { limit: 2 });
+    expect(result.responseInfo).toEqual({
+      uri: transport.requests[0].url,
+      title: 'Open defects',
+      description: 'Defects nobody fixed yet',
+      totalCount: 42,
+      nextPage: `${queryBase}?page=2`,
+      warnings: ['Some results were left out'],
+    });
+    expect(result.totalCount).toBe(42);
+  });
+
+  test('finds the response info under another URL, typed or not', async () => {
+    const rewritten = `<${queryBase}?rewritten=1>`;
+    const typed = await client(infoServer(`${rewritten} a oslc:ResponseInfo; oslc:totalCount 2.`)).queryResult(capability, {});
+    expect(typed.responseInfo?.uri).toBe(`${queryBase}?rewritten=1`);
+    expect(typed.totalCount).toBe(2);
+
+    const untyped = await client(infoServer(`${rewritten} oslc:totalCount 2.`)).queryResult(capability, {});
+    expect(untyped.responseInfo).toMatchObject({ uri: `${queryBase}?rewritten=1`, totalCount: 2, warnings: [] });
+  });
+
+  test('has no response info when the server gives none', async () => {
+    const result = await client(infoServer('')).queryResult(capability, {});
+    expect(result.members).toHaveLength(2);
+    expect(result.responseInfo).toBeUndefined();
+    expect(result.totalCount).toBeUndefined();
+    expect(result.next).toBeUndefined();
+  });
+});
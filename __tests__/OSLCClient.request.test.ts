@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'vitest';
+import { TimeoutError } from '../src/errors.js';
+import OIDCAuthStrategy from '../src/OIDCAuthStrategy.js';
+import OSLCClient from '../src/OSLCClient.js';
+import type { RequestEvent, ResponseEvent } from '../src/types.js';
+import { FakeTransport } from './helpers.js';
+
+const url = 'https://jazz.example/ccm/resource/1';
+const logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+function client(transport: FakeTransport): OSLCClient {
+  return new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false, timeout: 10, logger });
+}
+
+describe('OSLCClient requests', () => {
+  test('a request exceeding the client timeout throws a TimeoutError', async () => {
+    // What the transports throw when their timeout runs out
+    const transport = new FakeTransport(() => {
+      throw Object.assign(new Error('timeout of 10ms exceeded'), { code: 'ECONNABORTED' });
+    });
+    const error = await client(transport).getResource(url).catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).message).toBe(`GET ${url} timed out`);
+    expect(transport.requests[0].timeout).toBe(10);
+  });
+
+  test('a request exceeding the per-call timeout throws a TimeoutError', async () => {
+    const transport = new FakeTransport(
+      (request) =>
+        new Promise((_resolve, reject) => {
+          request.signal?.addEventListener('abort', () => reject(request.signal?.reason));
+        })
+    );
+    await expect(client(transport).getResource(url, undefined, undefined, { timeout: 5 })).rejects.toBeInstanceOf(
+      TimeoutError
+    );
+  });
+
+  test('sends Basic credentials only to the server that challenged', async () => {
+    const transport = new FakeTransport((request) =>
+      request.url.startsWith('https://jazz.example') && !request.headers['Authorization']
+        ? { status: 401 }
+        : { headers: { 'content-type': 'text/turtle' }, body: '' }
+    );
+    const oslcClient = new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false, logger, auth: 'basic' });
+    await oslcClient.getResource(url);
+    await oslcClient.getResource('https://evil.example/resource/1');
+
+    expect(transport.requests.map((request) => request.headers['Authorization'])).toEqual([
+      undefined,
+      `Basic ${btoa('alice:secret')}`,
+      undefined,
+    ]);
+  });
+});
+
+describe('OSLCClient hooks', () => {
+  test('report each exchange with the credentials redacted', async () => {
+    const transport = new FakeTransport(() => ({
+      headers: { 'content-type': 'text/turtle', etag: '"1"', 'set-cookie': 'JSESSIONID=abc' },
+      body: '',
+    }));
+    const oidc = new OIDCAuthStrategy({ tokenEndpoint: 'https://jas.example/token', servers: [url], clientId: 'id' });
+    oidc.setTokens({ accessToken: 'access' });
+    const requests: RequestEvent[] = [];
+    const responses: ResponseEvent[] = [];
+    const oslcClient = new OSLCClient({
+      username: 'alice',
+      password: 'secret',
+      transport,
+      retry: false,
+      logger,
+      auth: oidc,
+      hooks: { onRequest: (event) => requests.push(event), onResponse: (event) => responses.push(event) },
+    });
+    await oslcClient.getResource(url);
+
+    expect(transport.requests[0].headers['Authorization']).toBe('Bearer access');
+    expect(requests).toHaveLength(1);
+    expect([requests[0].method, requests[0].url]).toEqual(['GET', url]);
+    expect(requests[0].headers['Authorization']).toBe('[REDACTED]');
+    expect(requests[0].headers['OSLC-Core-Version']).toBe('2.0');
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].status).toBe(200);
+    // The response's own headers, not the request's
+    expect(responses[0].headers).toEqual({ 'content-type': 'text/turtle', etag: '"1"', 'set-cookie': '[REDACTED]' });
+    expect(responses[0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test('report a failed exchange without response headers', async () => {
+    const transport = new FakeTransport(() => {
+      throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    });
+    const responses: ResponseEvent[] = [];
+    const oslcClient = new OSLCClient({
+      username: 'alice',
+      password: 'secret',
+      transport,
+      retry: false,
+      logger,
+      hooks: { onResponse: (event) => responses.push(event) },
+    });
+    await expect(oslcClient.getResource(url)).rejects.toThrow();
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].status).toBeUndefined();
+    expect(responses[0].headers).toEqual({});
+    expect(responses[0].error).toBeDefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CookieJar } from 'tough-cookie';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import FileSessionStore from '../src/FileSessionStore.js';
+import OSLCClient from '../src/OSLCClient.js';
+import type { SessionData, SessionStore, TransportResponse } from '../src/types.js';
+import { FakeTransport } from './helpers.js';
+
+const url = 'https://jazz.example/ccm/resource/1';
+const logger = { debug() {}, info() {}, warn() {}, error() {} };
+const basic = `Basic ${btoa('alice:secret')}`;
+
+// A server asking for Basic credentials, with a cookie jar as the Node.js transports have
+class JazzServer extends FakeTransport {
+  readonly jar = new CookieJar();
+
+  constructor() {
+    super((request): Partial<TransportResponse> =>
+      request.headers['Authorization'] === basic
+        ? { headers: { 'content-type': 'text/turtle' }, body: '' }
+        : { status: 401, headers: { 'www-authenticate': 'Basic realm="jazz"' } }
+    );
+  }
+
+  async cookieJar(): Promise<CookieJar> {
+    return this.jar;
+  }
+}
+
+function client(transport: JazzServer, options: { sessionStore?: SessionStore; sessionMaxAge?: number } = {}) {
+  return new OSLCClient({
+    username: 'alice',
+    password: 'secret',
+    transport,
+    retry: false,
+    logger,
+    auth: 'basic',
+    ...options,
+  });
+}
+
+// A SessionStore keeping the session in memory
+function memoryStore(): SessionStore & { session?: SessionData } {
+  return {
+    async load() {
+      return this.session;
+    },
+    async save(session) {
+      this.session = session;
+    },
+    async clear() {
+      this.session = undefined;
+    },
+  };
+}
+
+describe('OSLCClient sessions', () => {
+  test('a restored session continues without another challenge', async () => {
+    const first = new JazzServer();
+    const loggedIn = client(first);
+    await loggedIn.getResource(url);
+    await first.jar.setCookie('JSESSIONID=abc; Path=/ccm', url);
+    const exported = JSON.stringify(await loggedIn.exportSession());
+
+    const second = new JazzServer();
+    const restored = client(second);
+    expect(await restored.restoreSession(exported)).toBe(true);
+    expect(restored.authMethod).toBe('basic');
+    expect(await second.jar.getCookieString(url)).toBe('JSESSIONID=abc');
+
+    await restored.getResource(url);
+    expect(second.requests.map((request) => request.headers['Authorization'])).toEqual([basic]);
+  });
+
+  test('an expired session is not restored', async () => {
+    const first = new JazzServer();
+    const loggedIn = client(first, { sessionMaxAge: 0 });
+    await loggedIn.getResource(url);
+
+    const restored = client(new JazzServer());
+    expect(await restored.restoreSession(await loggedIn.exportSession())).toBe(false);
+    expect(restored.authMethod).toBeUndefined();
+  });
+
+  test('a SessionStore saves the session after a login and restores it before the first request', async () => {
+    const store = memoryStore();
+    await client(new JazzServer(), { sessionStore: store }).getResource(url);
+    await vi.waitFor(() => expect(store.session?.authMethod).toBe('basic'));
+
+    const next = new JazzServer();
+    await client(next, { sessionStore: store }).getResource(url);
+    expect(next.requests).toHaveLength(1);
+    expect(next.requests[0].headers['Authorization']).toBe(basic);
+  });
+});
+
+describe('FileSessionStore', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'oslc-session-'));
+    path = join(directory, 'session.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('keeps a session for the next process, readable only by the user', async () => {
+    const store = new FileSessionStore(path);
+    expect(await store.load()).toBeUndefined();
+
+    await client(new JazzServer(), { sessionStore: store }).getResource(url);
+    await vi.waitFor(async () => expect((await new FileSessionStore(path).load())?.authMethod).toBe('basic'));
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+
+    const next = new JazzServer();
+    await client(next, { sessionStore: new FileSessionStore(path) }).getResource(url);
+    expect(next.requests).toHaveLength(1);
+
+    await store.clear();
+    expect(await store.load()).toBeUndefined();
+    await store.clear();
+  });
+});
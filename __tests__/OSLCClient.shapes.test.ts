@@ -0,0 +1,68 @@
+import { describe, expect, test, vi } from 'vitest';
+import { AbortError, OSLCError } from '../src/errors.js';
+import OSLCClient from '../src/OSLCClient.js';
+import type { TransportResponse } from '../src/types.js';
+import { FakeTransport } from './helpers.js';
+
+const documentURL = 'https://jazz.example/ccm/shapes/defect';
+const logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+// A shape document describing a defect and a task
+const shapes: Partial<TransportResponse> = {
+  headers: { 'content-type': 'text/turtle' },
+  body: `@prefix dcterms: <http://purl.org/dc/terms/>.
+    @prefix oslc: <http://open-services.net/ns/core#>.
+    <${documentURL}#defect> a oslc:ResourceShape; dcterms:title "Defect";
+      oslc:describes <http://example.com/Defect>.
+    <${documentURL}#task> a oslc:ResourceShape; dcterms:title "Task";
+      oslc:describes <http://example.com/Task>.`,
+};
+
+function client(transport: FakeTransport): OSLCClient {
+  return new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false, logger });
+}
+
+describe('OSLCClient.getResourceShape', () => {
+  test('reads a shape document once for all the shapes in it', async () => {
+    const transport = new FakeTransport(() => shapes);
+    const oslcClient = client(transport);
+    const [defect, task] = await Promise.all([
+      oslcClient.getResourceShape(`${documentURL}#defect`),
+      oslcClient.getResourceShape(`${documentURL}#task`),
+    ]);
+    const again = await oslcClient.getResourceShape(`${documentURL}#defect`);
+
+    expect(defect.getTitle()).toBe('Defect');
+    expect(defect.describes()).toEqual(['http://example.com/Defect']);
+    expect(task.getTitle()).toBe('Task');
+    expect(again.getTitle()).toBe('Defect');
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].url).toBe(documentURL);
+  });
+
+  test('reads the document again after a failure', async () => {
+    let status = 500;
+    const transport = new FakeTransport(() => (status === 500 ? { status } : shapes));
+    const oslcClient = client(transport);
+    await expect(oslcClient.getResourceShape(`${documentURL}#defect`)).rejects.toBeInstanceOf(OSLCError);
+
+    status = 200;
+    expect((await oslcClient.getResourceShape(`${documentURL}#defect`)).getTitle()).toBe('Defect');
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  test('one caller aborting does not fail the others sharing the read', async () => {
+    let answer!: (response: Partial<TransportResponse>) => void;
+    const transport = new FakeTransport(() => new Promise((resolve) => (answer = resolve)));
+    const oslcClient = client(transport);
+    const controller = new AbortController();
+    const cancelled = oslcClient.getResourceShape(`${documentURL}#defect`, { signal: controller.signal });
+    const waiting = oslcClient.getResourceShape(`${documentURL}#task`);
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(AbortError);
+    await vi.waitFor(() => expect(transport.requests).toHaveLength(1));
+    answer(shapes);
+    expect((await waiting).getTitle()).toBe('Task');
+  });
+});
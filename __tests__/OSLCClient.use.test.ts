@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'vitest';
+import OSLCClient from '../src/OSLCClient.js';
+import { documentServer, FakeTransport } from './helpers.js';
+
+const server = 'https://jazz.example/ccm';
+const catalog = `${server}/oslc/workitems/catalog`;
+const logger = { debug() {}, info() {}, warn() {}, error() {} };
+
+const rootservices = `<${server}/rootservices> <http://open-services.net/xmlns/cm/1.0/cmServiceProviders> <${catalog}>.`;
+
+// A service provider document with just its title
+const provider = (uri: string, title: string) => `<${uri}> a oslc:ServiceProvider; dcterms:title "${title}".`;
+
+function client(transport: FakeTransport): OSLCClient {
+  return new OSLCClient({ username: 'alice', password: 'secret', transport, retry: false, logger });
+}
+
+describe('OSLCClient.use in nested catalogs', () => {
+  // The top catalog lists "banking" and links to a nested catalog listing "Banking" and "Insurance"
+  const documents = {
+    [`${server}/rootservices`]: rootservices,
+    [catalog]: `<${catalog}> a oslc:ServiceProviderCatalog;
+        oslc:serviceProvider <${server}/sp/lower>;
+        oslc:serviceProviderCatalog <${catalog}/nested>.
+      <${server}/sp/lower> dcterms:title "banking".`,
+    [`${catalog}/nested`]: `<${catalog}/nested> a oslc:ServiceProviderCatalog;
+        oslc:serviceProvider <${server}/sp/exact>, <${server}/sp/insurance>.
+      <${server}/sp/exact> dcterms:title "Banking".
+      <${server}/sp/insurance> dcterms:title "Insurance"; dcterms:identifier "_ins".`,
+    [`${server}/sp/lower`]: provider(`${server}/sp/lower`, 'banking'),
+    [`${server}/sp/exact`]: provider(`${server}/sp/exact`, 'Banking'),
+    [`${server}/sp/insurance`]: provider(`${server}/sp/insurance`, 'Insurance'),
+  };
+
+  test('finds a provider listed only in a nested catalog', async () => {
+    const transport = documentServer(documents);
+    const sp = await client(transport).use(server, 'Insurance');
+    expect(sp.getURI()).toBe(`${server}/sp/insurance`);
+    expect(transport.requests.map((request) => request.url)).toEqual([
+      `${server}/rootservices`,
+      catalog,
+      `${catalog}/nested`,
+      `${server}/sp/insurance`,
+    ]);
+  });
+
+  test('prefers an exact title in a nested catalog to one differing in case', async () => {
+    expect((await client(documentServer(documents)).use(server, 'Banking')).getURI()).toBe(`${server}/sp/exact`);
+    expect((await client(documentServer(documents)).use(server, 'banking')).getURI()).toBe(`${server}/sp/lower`);
+  });
+
+  test('falls back to a title ignoring case, then an identifier', async () => {
+    expect((await client(documentServer(documents)).use(server, 'BANKING')).getURI()).toBe(`${server}/sp/lower`);
+    expect((await client(documentServer(documents)).use(server, '_ins')).getURI()).toBe(`${server}/sp/insurance`);
+  });
+
+  test('stops reading catalogs at an exact title', async () => {
+    const transport = documentServer(documents);
+    await client(transport).use(server, 'banking');
+    expect(transport.requests.map((request) => request.url)).not.toContain(`${catalog}/nested`);
+  });
+
+  test('reports a provider no catalog lists', async () => {
+    await expect(client(documentServer(documents)).use(server, 'Retail')).rejects.toThrow(
+      'Retail not found in service catalog'
+    );
+  });
+});
+
+describe('OSLCClient.use with several domains', () => {
+  const rm = 'https://jazz.example/rm';
+  const cmType = 'http://open-services.net/ns/cm#ChangeRequest';
+  const rmType = 'http://open-services.net/ns/rm#Requirement';
+
+  // A service provider document with a query capability for one resource type
+  const queryable = (uri: string, title: string, type: string) =>
+    `<${uri}> a oslc:ServiceProvider; dcterms:title "${title}";
+      oslc:service [ oslc:queryCapability [ oslc:resourceType <${type}>; oslc:queryBase <${uri}/query> ] ].`;
+
+  // A CM catalog on one server, and an RM catalog listed in jd:oslcCatalogs on another
+  const documents = {
+    [`${server}/rootservices`]: rootservices,
+    [catalog]: `<${catalog}> oslc:serviceProvider <${server}/sp/banking>.
+      <${server}/sp/banking> dcterms:title "Banking".`,
+    [`${server}/sp/banking`]: queryable(`${server}/sp/banking`, 'Banking', cmType),
+    [`${rm}/rootservices`]: `<${rm}/rootservices> <http://jazz.net/xmlns/prod/jazz/discovery/1.0/oslcCatalogs> <${rm}/catalog>.
+      <${rm}/catalog> oslc:domain <http://open-services.net/ns/rm#>.`,
+    [`${rm}/catalog`]: `<${rm}/catalog> oslc:serviceProvider <${rm}/sp/banking>, <${rm}/sp/insurance>.
+      <${rm}/sp/banking> dcterms:title "Banking".
+      <${rm}/sp/insurance> dcterms:title "Insurance".`,
+    [`${rm}/sp/banking`]: queryable(`${rm}/sp/banking`, 'Banking', rmType),
+    [`${rm}/sp/insurance`]: queryable(`${rm}/sp/insurance`, 'Insurance', rmType),
+  };
+
+  test('keeps the providers of each domain bound, the latest being the default', async () => {
+    const oslcClient = client(documentServer(documents));
+    const cm = await oslcClient.use(server, 'Banking', 'CM');
+    const requirements = await oslcClient.use(rm, 'Banking', 'RM');
+
+    expect(oslcClient.getServiceProvider()).toBe(requirements);
+    expect(oslcClient.getServiceProvider('cm')).toBe(cm);
+    expect(oslcClient.getServiceProvider({ domain: 'RM', title: 'Banking' })).toBe(requirements);
+    expect(oslcClient.getServiceProvider(cm)).toBe(cm);
+    expect(await oslcClient.getQueryBase(cmType, { provider: 'CM' })).toBe(`${server}/sp/banking/query`);
+    expect(await oslcClient.getQueryBase(rmType)).toBe(`${rm}/sp/banking/query`);
+  });
+
+  test('needs a title to select one of several providers of a domain', async () => {
+    const oslcClient = client(documentServer(documents));
+    await oslcClient.use(rm, 'Banking', 'RM');
+    const insurance = await oslcClient.use(rm, 'Insurance', 'rm');
+
+    expect(() => oslcClient.getServiceProvider('RM')).toThrow(
+      'Several RM service providers are bound, select one of Banking, Insurance'
+    );
+    expect(oslcClient.getServiceProvider({ domain: 'RM', title: 'Insurance' })).toBe(insurance);
+    expect(() => oslcClient.getServiceProvider('QM')).toThrow('No QM service provider. Call use() first.');
+    expect(() => oslcClient.getServiceProvider({ domain: 'RM', title: 'Retail' })).toThrow(
+      'No RM service provider Retail'
+    );
+  });
+
+  test('reads each rootservices document once', async () => {
+    const transport = documentServer(documents);
+    const oslcClient = client(transport);
+    await oslcClient.use(rm, 'Banking', 'RM');
+    await oslcClient.use(server, 'Banking', 'CM');
+    await oslcClient.use(rm, 'Insurance', 'RM');
+    const rootservicesReads = transport.requests.filter((request) => request.url.endsWith('/rootservices'));
+    expect(rootservicesReads.map((request) => request.url)).toEqual([`${rm}/rootservices`, `${server}/rootservices`]);
+  });
+});
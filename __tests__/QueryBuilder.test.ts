@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest';
+import QueryBuilder from '../src/QueryBuilder.js';
+import { QuerySyntaxError } from '../src/errors.js';
+import { dcterms, oslc_cm, rdf } from '../src/namespaces.js';
+
+describe('QueryBuilder', () => {
+  test('builds clauses with escaped values and the prefixes they use', () => {
+    const query = new QueryBuilder()
+      .select('dcterms:title', ['dcterms:creator', 'foaf:name'], ['dcterms:creator', 'foaf:mbox'])
+      .where(rdf('type'), '=', oslc_cm('Defect'))
+      .where('oslc_cm:status', 'in', ['Open', 'In "Progress"'])
+      .where(dcterms('modified'), '>', new Date('2024-01-01T00:00:00Z'))
+      .orderBy('dcterms:modified', 'desc')
+      .build();
+    expect(query.select).toBe('dcterms:title,dcterms:creator{foaf:name,foaf:mbox}');
+    expect(query.where).toBe(
+      'rdf:type=<http://open-services.net/ns/cm#Defect> and oslc_cm:status in ["Open","In \\"Progress\\""] and ' +
+        'dcterms:modified>"2024-01-01T00:00:00.000Z"^^xsd:dateTime'
+    );
+    expect(query.orderBy).toBe('-dcterms:modified');
+    expect(query.prefix?.split(',').map((declaration) => declaration.split('=')[0]).sort()).toEqual([
+      'dcterms',
+      'foaf',
+      'oslc_cm',
+      'rdf',
+      'xsd',
+    ]);
+  });
+
+  test('scopes conditions on a linked resource', () => {
+    const query = new QueryBuilder()
+      .where(['dcterms:creator', 'foaf:name'], '=', 'Bob')
+      .where('dcterms:contributor', (contributor) => contributor.where('foaf:name', '=', 'Amy').where('foaf:mbox', '=', new URL('mailto:amy@example.com')))
+      .build();
+    expect(query.where).toBe('dcterms:creator{foaf:name="Bob"} and dcterms:contributor{foaf:name="Amy" and foaf:mbox=<mailto:amy@example.com>}');
+  });
+
+  test('gives URIs in unknown namespaces a generated prefix', () => {
+    const query = new QueryBuilder().where('https://acme.example/ns#severity', '=', 'High').build();
+    expect(query.where).toBe('ns1:severity="High"');
+    expect(query.prefix).toBe('ns1=<https://acme.example/ns#>');
+  });
+
+  test('adds search terms', () => {
+    expect(new QueryBuilder().searchTerms('login', 'time "out"').build().searchTerms).toBe('"login","time \\"out\\""');
+  });
+
+  test('parses an existing query and carries on building it', () => {
+    const query = QueryBuilder.parse({ where: 'dcterms:title="x"' }).where('oslc_cm:status', '=', 'Open').build();
+    expect(query.where).toBe('dcterms:title="x" and oslc_cm:status="Open"');
+    expect(() => QueryBuilder.parse({ where: 'dcterms:title=' })).toThrow(QuerySyntaxError);
+  });
+});
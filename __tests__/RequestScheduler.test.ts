@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import RequestScheduler from '../src/RequestScheduler.js';
+
+// A task that resolves when told to, recording when it started
+function deferredTask(started: string[], name: string) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { task: () => (started.push(name), done.then(() => name)), finish };
+}
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('keeps at most maxConcurrent requests in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) => deferredTask(started, name));
+    const results = tasks.map(({ task }) => scheduler.schedule('https://one.example/x', task));
+    expect(started).toEqual(['a', 'b']);
+    tasks[0].finish();
+    await results[0];
+    await Promise.resolve();
+    expect(started).toEqual(['a', 'b', 'c']);
+    tasks[1].finish();
+    tasks[2].finish();
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('serves waiting hosts round-robin', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const first = deferredTask(started, 'one-1');
+    const running = scheduler.schedule('https://one.example/1', first.task);
+    const waiting = [
+      ['https://one.example/2', 'one-2'],
+      ['https://one.example/3', 'one-3'],
+      ['https://two.example/1', 'two-1'],
+    ].map(([url, name]) => scheduler.schedule(url, async () => (started.push(name), name)));
+    first.finish();
+    await Promise.all([running, ...waiting]);
+    expect(started).toEqual(['one-1', 'one-2', 'two-1', 'one-3']);
+  });
+
+  test('starts at most requestsPerSecond requests a second to a host', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler({ requestsPerSecond: { 'slow.example': 2 } });
+    const started: string[] = [];
+    const results = ['a', 'b', 'c'].map((name) => scheduler.schedule('https://slow.example/x', async () => (started.push(name), name)));
+    scheduler.schedule('https://fast.example/x', async () => started.push('fast'));
+    expect(started).toEqual(['a', 'fast']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual(['a', 'fast', 'b']);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual(['a', 'fast', 'b', 'c']);
+    expect(await Promise.all(results)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('drops a queued request when its signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const first = deferredTask(started, 'first');
+    const running = scheduler.schedule('https://one.example/1', first.task);
+    const controller = new AbortController();
+    const queued = scheduler.schedule('https://one.example/2', async () => started.push('aborted'), controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(queued).rejects.toThrow('stop');
+    first.finish();
+    await running;
+    expect(started).toEqual(['first']);
+  });
+});
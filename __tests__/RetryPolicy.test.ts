@@ -0,0 +1,75 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import RetryPolicy from '../src/RetryPolicy.js';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError('failed', undefined, config, undefined, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: '',
+  });
+}
+
+function networkError(code: string): AxiosError {
+  return new AxiosError('failed', code);
+}
+
+describe('RetryPolicy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('retries idempotent requests on retryable statuses and network errors', () => {
+    const policy = new RetryPolicy();
+    expect(policy.shouldRetry(1, 'GET', httpError(503))).toBe(true);
+    expect(policy.shouldRetry(1, 'put', httpError(502))).toBe(true);
+    expect(policy.shouldRetry(1, 'GET', networkError('ECONNRESET'))).toBe(true);
+    expect(policy.shouldRetry(1, 'GET', httpError(500))).toBe(false);
+    expect(policy.shouldRetry(1, 'GET', networkError('ERR_CANCELED'))).toBe(false);
+    expect(policy.shouldRetry(1, 'GET', new Error('not axios'))).toBe(false);
+  });
+
+  test('stops after maxAttempts', () => {
+    const policy = new RetryPolicy({ maxAttempts: 2 });
+    expect(policy.shouldRetry(1, 'GET', httpError(503))).toBe(true);
+    expect(policy.shouldRetry(2, 'GET', httpError(503))).toBe(false);
+  });
+
+  test('retries a POST only when the server sent Retry-After', () => {
+    const policy = new RetryPolicy();
+    expect(policy.shouldRetry(1, 'POST', httpError(503))).toBe(false);
+    expect(policy.shouldRetry(1, 'POST', httpError(503, { 'retry-after': '1' }))).toBe(true);
+    expect(policy.shouldRetry(1, 'POST', httpError(429, { 'retry-after': '1' }))).toBe(true);
+    expect(policy.shouldRetry(1, 'POST', httpError(500, { 'retry-after': '1' }))).toBe(false);
+    expect(policy.shouldRetry(1, 'POST', networkError('ECONNRESET'))).toBe(false);
+    expect(policy.shouldRetry(1, 'POST', networkError('ECONNREFUSED'))).toBe(false);
+  });
+
+  test('backs off exponentially up to maxDelay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 1000 });
+    expect([1, 2, 3, 4, 5].map((attempt) => policy.delay(attempt, httpError(503)))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  test('randomizes up to the jitter fraction of the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(new RetryPolicy({ baseDelay: 100, jitter: 0.5 }).delay(1, httpError(503))).toBe(50);
+  });
+
+  test('waits as long as Retry-After asks', () => {
+    const policy = new RetryPolicy({ maxDelay: 10000 });
+    expect(policy.delay(1, httpError(503, { 'retry-after': '3' }))).toBe(3000);
+    const date = new Date(Date.now() + 5000).toUTCString();
+    expect(policy.delay(1, httpError(503, { 'retry-after': date }))).toBeGreaterThan(3000);
+    expect(policy.delay(1, httpError(503, { 'retry-after': '60' }))).toBeNull();
+  });
+
+  test('ignores Retry-After when told to', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const policy = new RetryPolicy({ baseDelay: 100, respectRetryAfter: false });
+    expect(policy.delay(1, httpError(503, { 'retry-after': '3' }))).toBe(100);
+  });
+});
@@ -0,0 +1,93 @@
+import * as $rdf from 'rdflib';
+import { describe, expect, test } from 'vitest';
+import RootServices from '../src/RootServices.js';
+
+const server = 'https://jazz.example/ccm';
+const url = `${server}/rootservices`;
+
+function rootServices(properties: string): RootServices {
+  const store = $rdf.graph();
+  $rdf.parse(
+    `<?xml version="1.0" encoding="UTF-8"?>
+    <rdf:Description rdf:about="${url}"
+        xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+        xmlns:dc="http://purl.org/dc/terms/"
+        xmlns:jd="http://jazz.net/xmlns/prod/jazz/discovery/1.0/"
+        xmlns:jfs="http://jazz.net/xmlns/prod/jazz/jfs/1.0/"
+        xmlns:oslc="http://open-services.net/ns/core#"
+        xmlns:oslc_cm="http://open-services.net/xmlns/cm/1.0/"
+        xmlns:ccm="http://jazz.net/xmlns/prod/jazz/ccm/1.0/">
+      ${properties}
+    </rdf:Description>`,
+    store,
+    url,
+    'application/rdf+xml'
+  );
+  return new RootServices(url, store);
+}
+
+describe('RootServices', () => {
+  test('describe gives everything a Jazz rootservices document advertises', () => {
+    const described = rootServices(`
+      <dc:title>Change and Configuration Management</dc:title>
+      <ccm:version>7.0.3</ccm:version>
+      <oslc_cm:cmServiceProviders rdf:resource="${server}/oslc/workitems/catalog"/>
+      <jd:oslcCatalogs>
+        <oslc:ServiceProviderCatalog rdf:about="${server}/oslc/workitems/catalog">
+          <oslc:domain rdf:resource="http://open-services.net/ns/cm#"/>
+        </oslc:ServiceProviderCatalog>
+      </jd:oslcCatalogs>
+      <jd:oslcCatalogs>
+        <oslc:ServiceProviderCatalog rdf:about="${server}/oslc_config/catalog">
+          <oslc:domain rdf:resource="http://open-services.net/ns/config#"/>
+        </oslc:ServiceProviderCatalog>
+      </jd:oslcCatalogs>
+      <jfs:oauthRealmName>Jazz</jfs:oauthRealmName>
+      <jfs:oauthDomain>${server}</jfs:oauthDomain>
+      <jfs:oauthRequestTokenUrl rdf:resource="${server}/oauth-request-token"/>
+      <jfs:oauthUserAuthorizationUrl rdf:resource="${server}/oauth-authorize"/>
+      <jfs:oauthAccessTokenUrl rdf:resource="${server}/oauth-access-token"/>
+      <jfs:users rdf:resource="https://jazz.example/jts/users"/>
+      <jfs:currentUser rdf:resource="https://jazz.example/jts/whoami"/>`).describe();
+
+    expect(described).toMatchObject({
+      url,
+      title: 'Change and Configuration Management',
+      version: '7.0.3',
+      usersUrl: 'https://jazz.example/jts/users',
+      currentUserUrl: 'https://jazz.example/jts/whoami',
+      oauth: {
+        requestTokenUrl: `${server}/oauth-request-token`,
+        userAuthorizationUrl: `${server}/oauth-authorize`,
+        accessTokenUrl: `${server}/oauth-access-token`,
+        realm: 'Jazz',
+        domain: server,
+      },
+    });
+    expect(described.catalogs).toEqual(
+      expect.arrayContaining([
+        {
+          url: `${server}/oslc/workitems/catalog`,
+          domains: ['http://open-services.net/ns/cm#'],
+          properties: ['http://open-services.net/xmlns/cm/1.0/cmServiceProviders'],
+        },
+        { url: `${server}/oslc_config/catalog`, domains: ['http://open-services.net/ns/config#'], properties: [] },
+      ])
+    );
+    expect(described.catalogs).toHaveLength(2);
+  });
+
+  test('describe leaves out what the document does not advertise', () => {
+    // Only some of the OAuth endpoints are not enough to use OAuth
+    const described = rootServices(`<jfs:oauthRequestTokenUrl rdf:resource="${server}/oauth-request-token"/>`).describe();
+    expect(described).toEqual({
+      url,
+      title: undefined,
+      version: undefined,
+      catalogs: [],
+      oauth: undefined,
+      usersUrl: undefined,
+      currentUserUrl: undefined,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios, { type AxiosInstance } from 'axios';
+import { CookieJar } from 'tough-cookie';
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
+import { createAgents } from '../src/agents.js';
+import type { TransportOptions } from '../src/types.js';
+
+interface Received {
+  url?: string;
+  authorization?: string;
+  connect?: string;
+}
+
+describe('createAgents', () => {
+  let proxy: http.Server;
+  let proxyUrl: string;
+  let received: Received;
+
+  beforeAll(async () => {
+    proxy = http.createServer((request, response) => {
+      received.url = request.url;
+      received.authorization = request.headers['proxy-authorization'];
+      response.end('proxied');
+    });
+    // Refuse every tunnel, as proxies that only allow CONNECT to port 443 do
+    proxy.on('connect', (request, socket) => {
+      received.connect = request.url;
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => proxy.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function client(options: TransportOptions): AxiosInstance {
+    received = {};
+    return axios.create(createAgents(new CookieJar(), options));
+  }
+
+  test('sends plain HTTP requests to the proxy in absolute form', async () => {
+    const proxyWithCredentials = proxyUrl.replace('//', '//user:secret@');
+    const response = await client({ proxy: proxyWithCredentials }).get('http://server.example:8080/rootservices?a=1');
+    expect(response.data).toBe('proxied');
+    expect(received.url).toBe('http://server.example:8080/rootservices?a=1');
+    expect(received.authorization).toBe(`Basic ${Buffer.from('user:secret').toString('base64')}`);
+    expect(received.connect).toBeUndefined();
+  });
+
+  test('tunnels HTTPS requests with CONNECT', async () => {
+    await expect(client({ proxy: proxyUrl }).get('https://server.example/rootservices')).rejects.toThrow(
+      /refused to connect to server\.example:443/
+    );
+    expect(received.connect).toBe('server.example:443');
+  });
+
+  test('routes the environment proxy through the same agents', async () => {
+    vi.stubEnv('HTTP_PROXY', proxyUrl);
+    vi.stubEnv('HTTPS_PROXY', proxyUrl);
+    const settings = createAgents(new CookieJar(), {});
+    expect(settings.proxy).toBe(false);
+
+    const proxied = client({});
+    await proxied.get('http://server.example/rootservices');
+    expect(received.url).toBe('http://server.example/rootservices');
+    await expect(proxied.get('https://server.example/rootservices')).rejects.toThrow(/refused to connect/);
+    expect(received.connect).toBe('server.example:443');
+  });
+
+  test('bypasses the environment proxy for NO_PROXY hosts and when proxy is false', async () => {
+    const target = http.createServer((_request, response) => response.end('direct'));
+    await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+    const targetUrl = `http://127.0.0.1:${(target.address() as AddressInfo).port}/`;
+    try {
+      vi.stubEnv('HTTP_PROXY', proxyUrl);
+      vi.stubEnv('NO_PROXY', 'example.com, 127.0.0.1');
+      expect((await client({}).get(targetUrl)).data).toBe('direct');
+      expect(received.url).toBeUndefined();
+
+      vi.stubEnv('NO_PROXY', '');
+      expect((await client({ proxy: false }).get(targetUrl)).data).toBe('direct');
+      expect((await client({}).get(targetUrl)).data).toBe('proxied');
+    } finally {
+      await new Promise((resolve) => target.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+import { parseDialogResults, receiveDialogResults } from '../src/dialogs.js';
+import { TimeoutError } from '../src/errors.js';
+import type { DialogMessageEvent, MessageTarget } from '../src/types.js';
+
+const json = JSON.stringify({
+  'oslc:results': [{ 'rdf:resource': 'https://jazz.example/wi/1', 'oslc:label': 'Defect 1' }, { 'rdf:resource': 'https://jazz.example/wi/2' }],
+});
+const results = [{ uri: 'https://jazz.example/wi/1', label: 'Defect 1' }, { uri: 'https://jazz.example/wi/2', label: undefined }];
+
+// A window the tests post messages to
+function messageTarget() {
+  const listeners = new Set<(event: DialogMessageEvent) => void>();
+  const target: MessageTarget = {
+    addEventListener: (_type, listener) => listeners.add(listener),
+    removeEventListener: (_type, listener) => listeners.delete(listener),
+  };
+  const post = (data: unknown, origin = 'https://jazz.example') => [...listeners].forEach((listener) => listener({ data, origin }));
+  return { target, post, listeners };
+}
+
+describe('parseDialogResults', () => {
+  test('reads a postMessage response', () => {
+    expect(parseDialogResults(`oslc-response:${json}`)).toEqual(results);
+  });
+
+  test('reads windowName JSON and parsed objects', () => {
+    expect(parseDialogResults(json)).toEqual(results);
+    expect(parseDialogResults(JSON.parse(json))).toEqual(results);
+  });
+
+  test('reads a cancelled dialog as no results', () => {
+    expect(parseDialogResults('oslc-response:{"oslc:results":[]}')).toEqual([]);
+  });
+
+  test('rejects responses without oslc:results', () => {
+    expect(() => parseDialogResults('{"results":[]}')).toThrow('oslc:results');
+    expect(() => parseDialogResults('oslc-response:{')).toThrow(SyntaxError);
+  });
+});
+
+describe('receiveDialogResults', () => {
+  test('resolves with the first response from the dialog origin', async () => {
+    const { target, post, listeners } = messageTarget();
+    const received = receiveDialogResults(target, { origin: 'https://jazz.example' });
+    post(json);
+    post('unrelated message');
+    post(`oslc-response:${json}`, 'https://elsewhere.example');
+    post(`oslc-response:${json}`);
+    expect(await received).toEqual(results);
+    expect(listeners.size).toBe(0);
+  });
+
+  test('rejects a response that is not valid', async () => {
+    const { target, post } = messageTarget();
+    const received = receiveDialogResults(target, { origin: 'https://jazz.example' });
+    post('oslc-response:not json');
+    await expect(received).rejects.toThrow(SyntaxError);
+  });
+
+  test('stops waiting after the timeout', async () => {
+    const { target, listeners } = messageTarget();
+    await expect(receiveDialogResults(target, { origin: 'https://jazz.example', timeout: 10 })).rejects.toThrow(TimeoutError);
+    expect(listeners.size).toBe(0);
+  });
+});
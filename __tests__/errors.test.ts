@@ -0,0 +1,96 @@
+import type { AxiosResponse } from 'axios';
+import { describe, expect, test } from 'vitest';
+import {
+  AuthenticationError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  OSLCError,
+  parseOSLCError,
+  PreconditionFailedError,
+} from '../src/errors.js';
+
+const url = 'https://jazz.example/ccm/resource/1';
+
+const rdfXmlError = `<?xml version="1.0" encoding="UTF-8"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:oslc="http://open-services.net/ns/core#">
+  <oslc:Error>
+    <oslc:statusCode>409</oslc:statusCode>
+    <oslc:message>The work item was modified by someone else</oslc:message>
+    <oslc:extendedError>
+      <oslc:ExtendedError>
+        <oslc:moreInfo rdf:resource="https://jazz.example/ccm/help/conflict"/>
+        <oslc:rel>alternate</oslc:rel>
+        <oslc:hintWidth>400px</oslc:hintWidth>
+        <oslc:hintHeight>300px</oslc:hintHeight>
+      </oslc:ExtendedError>
+    </oslc:extendedError>
+  </oslc:Error>
+</rdf:RDF>`;
+
+function failed(status: number, data: unknown = '', contentType = 'text/plain'): AxiosResponse {
+  return {
+    status,
+    statusText: '',
+    data,
+    headers: { 'content-type': contentType },
+    config: { url, method: 'put', headers: {} },
+  } as unknown as AxiosResponse;
+}
+
+describe('parseOSLCError', () => {
+  test('reads an oslc:Error and its extended error', () => {
+    expect(parseOSLCError(rdfXmlError, 'application/rdf+xml; charset=UTF-8', url)).toEqual({
+      statusCode: '409',
+      message: 'The work item was modified by someone else',
+      moreInfo: 'https://jazz.example/ccm/help/conflict',
+      rel: 'alternate',
+      hintWidth: '400px',
+      hintHeight: '300px',
+    });
+  });
+
+  test('reads an untyped error resource', () => {
+    const turtle = `@prefix oslc: <http://open-services.net/ns/core#>.
+      [] oslc:statusCode "500"; oslc:message "Internal error".`;
+    expect(parseOSLCError(turtle, 'text/turtle', url)).toEqual({ statusCode: '500', message: 'Internal error' });
+  });
+
+  test('gives nothing for bodies without an error resource', () => {
+    expect(parseOSLCError('<html>Server Error</html>', 'text/html', url)).toBeUndefined();
+    expect(parseOSLCError('not turtle at all', 'text/turtle', url)).toBeUndefined();
+    expect(parseOSLCError('<> <http://purl.org/dc/terms/title> "x".', 'text/turtle', url)).toBeUndefined();
+    expect(parseOSLCError({ message: 'parsed JSON' }, 'application/ld+json', url)).toBeUndefined();
+  });
+});
+
+describe('OSLCError.fromResponse', () => {
+  test('creates the error class matching the status', () => {
+    expect(OSLCError.fromResponse(failed(401))).toBeInstanceOf(AuthenticationError);
+    expect(OSLCError.fromResponse(failed(403))).toBeInstanceOf(ForbiddenError);
+    expect(OSLCError.fromResponse(failed(404))).toBeInstanceOf(NotFoundError);
+    expect(OSLCError.fromResponse(failed(410))).toBeInstanceOf(NotFoundError);
+    expect(OSLCError.fromResponse(failed(412))).toBeInstanceOf(PreconditionFailedError);
+    const error = OSLCError.fromResponse(failed(500));
+    expect(error.constructor).toBe(OSLCError);
+    expect(error.name).toBe('OSLCError');
+  });
+
+  test('carries the request, the body and the oslc:Error details', () => {
+    const cause = new Error('Request failed with status code 409');
+    const error = OSLCError.fromResponse(failed(409, rdfXmlError, 'application/rdf+xml'), cause);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.name).toBe('ConflictError');
+    expect(error.message).toBe(`PUT ${url} failed with status 409: The work item was modified by someone else`);
+    expect([error.status, error.method, error.url]).toEqual([409, 'PUT', url]);
+    expect(error.details?.moreInfo).toBe('https://jazz.example/ccm/help/conflict');
+    expect(error.body).toBe(rdfXmlError);
+    expect(error.cause).toBe(cause);
+  });
+
+  test('leaves the message plain without error details', () => {
+    const error = OSLCError.fromResponse(failed(503, 'Service Unavailable'));
+    expect(error.message).toBe(`PUT ${url} failed with status 503`);
+    expect(error.details).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+/*
+ * Fakes shared by the tests
+ */
+
+import type { AxiosInstance, AxiosResponse } from 'axios';
+import type { AuthContext, Transport, TransportRequest, TransportResponse } from '../src/types.js';
+
+/**
+ * A response as an AuthStrategy sees it
+ */
+export function response(status: number, headers: Record<string, string> = {}, url = 'https://jazz.example/ccm/oslc/x'): AxiosResponse {
+  return { status, statusText: '', headers, data: '', config: { url, headers: {} } } as unknown as AxiosResponse;
+}
+
+/**
+ * An AuthContext whose client answers each call with the next of the given data
+ */
+export function authContext(...data: unknown[]): AuthContext & { calls: Array<{ method: string; url: string; body?: unknown; config?: any }> } {
+  const calls: Array<{ method: string; url: string; body?: unknown; config?: any }> = [];
+  const answer = async () => ({ status: 200, data: data.shift() });
+  const client = {
+    post: async (url: string, body: unknown, config: unknown) => (calls.push({ method: 'POST', url, body, config }), answer()),
+    get: async (url: string, config: unknown) => (calls.push({ method: 'GET', url, config }), answer()),
+  } as unknown as AxiosInstance;
+  const logger = { debug() {}, info() {}, warn() {}, error() {} };
+  return { userid: 'alice', password: 'secret', client, isNodeEnvironment: true, logger, calls };
+}
+
+/**
+ * A Transport answering requests with a handler, and recording them
+ */
+export class FakeTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+
+  constructor(private handler: (request: TransportRequest) => Partial<TransportResponse> | Promise<Partial<TransportResponse>>) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const { status = 200, statusText = 'OK', headers = {}, body = '' } = await this.handler(request);
+    return { status, statusText, headers, body };
+  }
+}
+
+/**
+ * A FakeTransport serving Turtle documents by URL, and 404 for any other URL
+ */
+export function documentServer(documents: Record<string, string>): FakeTransport {
+  return new FakeTransport((request) => {
+    const body = documents[request.url.split('?')[0]];
+    return body === undefined
+      ? { status: 404, statusText: 'Not Found' }
+      : {
+          headers: { 'content-type': 'text/turtle' },
+          body: `@prefix dcterms: <http://purl.org/dc/terms/>.
+            @prefix oslc: <http://open-services.net/ns/core#>.
+            ${body}`,
+        };
+  });
+}
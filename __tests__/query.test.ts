@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'vitest';
+import { QueryError, QuerySyntaxError } from '../src/errors.js';
+import {
+  parseOrderBy,
+  parsePrefixes,
+  parseQuery,
+  parseSearchTerms,
+  parseSelect,
+  parseWhere,
+  serializeQuery,
+  serializeWhere,
+  splitSearchText,
+} from '../src/query.js';
+
+describe('parseWhere', () => {
+  test('parses comparisons, in and nested terms', () => {
+    expect(parseWhere('dcterms:title="Bug \\"1\\"" and oslc_cm:status in ["Open","New"] and dcterms:creator{foaf:name="Bob"}')).toEqual([
+      { kind: 'comparison', property: 'dcterms:title', operator: '=', value: { kind: 'string', value: 'Bug "1"' } },
+      {
+        kind: 'in',
+        property: 'oslc_cm:status',
+        values: [
+          { kind: 'string', value: 'Open' },
+          { kind: 'string', value: 'New' },
+        ],
+      },
+      {
+        kind: 'scoped',
+        property: 'dcterms:creator',
+        terms: [{ kind: 'comparison', property: 'foaf:name', operator: '=', value: { kind: 'string', value: 'Bob' } }],
+      },
+    ]);
+  });
+
+  test('parses typed and language tagged strings, URIs, numbers and booleans', () => {
+    const values = parseWhere(
+      'a:d>="2024-01-01"^^xsd:date and a:l="Bug"@en and a:u=<http://x/1> and a:n<=-1.5 and a:b!=true'
+    ).map((term) => (term.kind === 'comparison' ? [term.operator, term.value] : undefined));
+    expect(values).toEqual([
+      ['>=', { kind: 'string', value: '2024-01-01', datatype: 'xsd:date' }],
+      ['=', { kind: 'string', value: 'Bug', language: 'en' }],
+      ['=', { kind: 'uri', uri: 'http://x/1' }],
+      ['<=', { kind: 'decimal', value: '-1.5' }],
+      ['!=', { kind: 'boolean', value: true }],
+    ]);
+  });
+
+  test('reports where a clause is not valid', () => {
+    const error = (() => {
+      try {
+        parseWhere('dcterms:title="open');
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(error).toBeInstanceOf(QuerySyntaxError);
+    expect(error).toBeInstanceOf(QueryError);
+    expect((error as QuerySyntaxError).position).toBe(14);
+  });
+
+  test('rejects prefixes that are not declared', () => {
+    expect(() => parseWhere('acme:x=1', { dcterms: 'http://purl.org/dc/terms/' })).toThrow('Unknown prefix acme');
+  });
+});
+
+describe('parseSelect, parseOrderBy and parsePrefixes', () => {
+  test('parse nested properties', () => {
+    expect(parseSelect('dcterms:title,dcterms:creator{foaf:name,foaf:mbox}')).toEqual([
+      { property: 'dcterms:title' },
+      { property: 'dcterms:creator', nested: [{ property: 'foaf:name' }, { property: 'foaf:mbox' }] },
+    ]);
+    expect(parseOrderBy('-dcterms:modified,dcterms:creator{+foaf:name}')).toEqual([
+      { property: 'dcterms:modified', direction: 'desc' },
+      { property: 'dcterms:creator', terms: [{ property: 'foaf:name', direction: 'asc' }] },
+    ]);
+    expect(parsePrefixes('acme=<https://acme.example/ns#>,dcterms=<http://purl.org/dc/terms/>')).toEqual({
+      acme: 'https://acme.example/ns#',
+      dcterms: 'http://purl.org/dc/terms/',
+    });
+  });
+});
+
+describe('parseQuery and serializeQuery', () => {
+  test('round-trip a query, declaring only the prefixes it uses', () => {
+    const query = {
+      prefix: 'acme=<https://acme.example/ns#>',
+      select: 'dcterms:title',
+      where: 'acme:severity="High"',
+      orderBy: '-dcterms:modified',
+      searchTerms: '"login","time out"',
+    };
+    const ast = parseQuery(query);
+    expect(ast.searchTerms).toEqual(['login', 'time out']);
+    expect(serializeQuery(ast)).toEqual({
+      prefix: 'acme=<https://acme.example/ns#>,dcterms=<http://purl.org/dc/terms/>',
+      select: 'dcterms:title',
+      where: 'acme:severity="High"',
+      orderBy: '-dcterms:modified',
+      searchTerms: '"login","time out"',
+    });
+  });
+
+  test('escapes strings when writing a clause', () => {
+    expect(serializeWhere([{ kind: 'comparison', property: 'dcterms:title', operator: '=', value: { kind: 'string', value: 'a "b" \\ c' } }])).toBe(
+      'dcterms:title="a \\"b\\" \\\\ c"'
+    );
+  });
+
+  test('rejects an unknown prefix when writing', () => {
+    expect(() => serializeQuery({ prefixes: {}, where: [{ kind: 'comparison', property: 'acme:x', operator: '=', value: { kind: 'decimal', value: '1' } }] })).toThrow(
+      QueryError
+    );
+  });
+});
+
+describe('search terms', () => {
+  test('parseSearchTerms accepts only plain strings', () => {
+    expect(parseSearchTerms('"a\\"b", "c"')).toEqual(['a"b', 'c']);
+    expect(() => parseSearchTerms('"a",<http://x>')).toThrow(QuerySyntaxError);
+  });
+
+  test('splitSearchText keeps quoted phrases together', () => {
+    expect(splitSearchText(' login "time out"  error ')).toEqual(['login', 'time out', 'error']);
+    expect(splitSearchText('   ')).toEqual([]);
+  });
+
+  test('splitSearchText ends an unclosed phrase at the end of the text', () => {
+    expect(splitSearchText('login "time out')).toEqual(['login', 'time out']);
+    expect(splitSearchText('login "')).toEqual(['login']);
+    expect(splitSearchText('a"b" c')).toEqual(['a', 'b', 'c']);
+  });
+});
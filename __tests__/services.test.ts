@@ -0,0 +1,162 @@
+import * as $rdf from 'rdflib';
+import type { Quad_Subject } from 'rdflib/lib/tf-types';
+import { describe, expect, test } from 'vitest';
+import { CreationFactory, matchesURI, Publisher, QueryCapability, Service } from '../src/services.js';
+
+const providerURL = 'https://jazz.example/ccm/oslc/contexts/_1/workitems/services.xml';
+
+// The first service of a service provider document
+function service(turtle: string): Service {
+  const store = $rdf.graph();
+  $rdf.parse(
+    `@prefix dcterms: <http://purl.org/dc/terms/>.
+    @prefix oslc: <http://open-services.net/ns/core#>.
+    ${turtle}`,
+    store,
+    providerURL,
+    'text/turtle'
+  );
+  const node = store.any($rdf.sym(providerURL), $rdf.sym('http://open-services.net/ns/core#service'));
+  return new Service(node as Quad_Subject, store);
+}
+
+describe('Dialog', () => {
+  const dialogs = (dialog: string) =>
+    service(`<${providerURL}> oslc:service [ oslc:selectionDialog [ dcterms:title "Pick"; oslc:dialog <${dialog}> ] ].`)
+      .selectionDialogs[0];
+
+  test('getURL asks for the protocol in the fragment', () => {
+    const dialog = dialogs('https://jazz.example/ccm/pick?type=defect');
+    expect(dialog.getURL()).toBe('https://jazz.example/ccm/pick?type=defect#oslc-core-postMessage-1.0');
+    expect(dialog.getURL('windowName')).toBe('https://jazz.example/ccm/pick?type=defect#oslc-core-windowName-1.0');
+  });
+
+  test('getURL keeps the fragment of the dialog URL', () => {
+    const dialog = dialogs('https://jazz.example/ccm/web#action=pick');
+    expect(dialog.getURL()).toBe('https://jazz.example/ccm/web#action=pick&oslc-core-postMessage-1.0');
+    expect(dialogs('https://jazz.example/ccm/web#action=pick&oslc-core-windowName-1.0').getURL()).toBe(
+      'https://jazz.example/ccm/web#action=pick&oslc-core-postMessage-1.0'
+    );
+  });
+
+  test('getURL needs an oslc:dialog', () => {
+    const dialog = service(`<${providerURL}> oslc:service [ oslc:creationDialog [ dcterms:title "New" ] ].`)
+      .creationDialogs[0];
+    expect(() => dialog.getURL()).toThrow('Dialog New has no oslc:dialog');
+  });
+});
+
+describe('services', () => {
+  const cm = 'http://open-services.net/ns/cm#';
+  const changes = service(`@prefix oslc_cm: <${cm}>.
+    <${providerURL}> oslc:service [
+      oslc:domain oslc_cm:;
+      oslc:queryCapability [
+        dcterms:title " Work Items "; oslc:label "Items";
+        oslc:resourceType oslc_cm:ChangeRequest;
+        oslc:usage oslc:default, oslc:fullTextSearch;
+        oslc:queryBase <https://jazz.example/ccm/query>;
+        oslc:resourceShape <https://jazz.example/ccm/shapes/query>
+      ], [
+        dcterms:title "Defects"; oslc:resourceType oslc_cm:Defect;
+        oslc:queryBase <https://jazz.example/ccm/query/defects>
+      ];
+      oslc:creationFactory [
+        dcterms:title "Defect"; oslc:resourceType oslc_cm:Defect;
+        oslc:usage <https://jazz.example/ns#defect>;
+        oslc:creation <https://jazz.example/ccm/create/defect>;
+        oslc:resourceShape <https://jazz.example/ccm/shapes/defect>, <https://jazz.example/ccm/shapes/defect2>
+      ];
+      oslc:creationDialog [ dcterms:title "New Defect"; oslc:dialog <https://jazz.example/ccm/new>;
+        oslc:hintWidth "600px"; oslc:hintHeight "400px" ]
+    ].`);
+
+  test('Service reads the domain and capabilities', () => {
+    expect(changes.domain).toBe(cm);
+    expect(changes.queryCapabilities).toHaveLength(2);
+    expect(changes.creationFactories).toHaveLength(1);
+    expect(changes.selectionDialogs).toEqual([]);
+    const [dialog] = changes.creationDialogs;
+    expect([dialog.title, dialog.dialog, dialog.hintWidth, dialog.hintHeight]).toEqual([
+      'New Defect',
+      'https://jazz.example/ccm/new',
+      '600px',
+      '400px',
+    ]);
+  });
+
+  test('QueryCapability reads its query base, shapes and usages', () => {
+    const [items, defects] = changes.queryCapabilities;
+    expect(items).toBeInstanceOf(QueryCapability);
+    expect(items.title).toBe('Work Items');
+    expect(items.label).toBe('Items');
+    expect(items.queryBase).toBe('https://jazz.example/ccm/query');
+    expect(items.resourceShapes).toEqual(['https://jazz.example/ccm/shapes/query']);
+    expect(items.resourceTypes).toEqual([`${cm}ChangeRequest`]);
+    expect(items.domain).toBe(cm);
+    expect(items.service).toBe(changes);
+    expect(items.isDefault).toBe(true);
+    expect(items.supportsFullTextSearch).toBe(true);
+    expect(defects.isDefault).toBe(false);
+    expect(defects.supportsFullTextSearch).toBe(false);
+    expect(defects.resourceShapes).toEqual([]);
+  });
+
+  test('CreationFactory reads its creation URL and shapes', () => {
+    const [factory] = changes.creationFactories;
+    expect(factory).toBeInstanceOf(CreationFactory);
+    expect(factory.creation).toBe('https://jazz.example/ccm/create/defect');
+    expect(factory.resourceShapes.sort()).toEqual([
+      'https://jazz.example/ccm/shapes/defect',
+      'https://jazz.example/ccm/shapes/defect2',
+    ]);
+  });
+
+  test('matches requires every criterion of a filter', () => {
+    const [items, defects] = changes.queryCapabilities;
+    expect(items.matches({})).toBe(true);
+    expect(items.matches({ resourceType: 'ChangeRequest' })).toBe(true);
+    expect(items.matches({ resourceType: `${cm}ChangeRequest`, domain: cm })).toBe(true);
+    expect(items.matches({ resourceType: $rdf.sym(`${cm}ChangeRequest`) })).toBe(true);
+    expect(items.matches({ resourceType: 'ChangeRequest', domain: 'http://open-services.net/ns/rm#' })).toBe(false);
+    expect(items.matches({ usage: 'fullTextSearch', title: /work/i })).toBe(true);
+    expect(items.matches({ title: 'Work' })).toBe(false);
+    expect(defects.matches({ usage: 'default' })).toBe(false);
+    expect(changes.creationFactories[0].matches({ usage: 'defect' })).toBe(true);
+  });
+
+  test('Publisher reads the tool offering a service provider', () => {
+    const store = $rdf.graph();
+    $rdf.parse(
+      `@prefix dcterms: <http://purl.org/dc/terms/>.
+      @prefix oslc: <http://open-services.net/ns/core#>.
+      <${providerURL}> oslc:publisher <https://jazz.example/ccm/publisher>.
+      <https://jazz.example/ccm/publisher> dcterms:title "EWM"; oslc:label "ccm";
+        dcterms:identifier "com.ibm.team.workitem"; oslc:icon <https://jazz.example/ccm/icon.png>.`,
+      store,
+      providerURL,
+      'text/turtle'
+    );
+    const publisher = new Publisher($rdf.sym('https://jazz.example/ccm/publisher'), store);
+    expect([publisher.title, publisher.label, publisher.identifier, publisher.icon]).toEqual([
+      'EWM',
+      'ccm',
+      'com.ibm.team.workitem',
+      'https://jazz.example/ccm/icon.png',
+    ]);
+    expect(publisher.getURI()).toBe('https://jazz.example/ccm/publisher');
+  });
+});
+
+describe('matchesURI', () => {
+  test('matches absolute URIs exactly and other strings by local name', () => {
+    expect(matchesURI('http://open-services.net/ns/cm#Defect', 'Defect')).toBe(true);
+    expect(matchesURI('https://jazz.example/types/Defect', 'Defect')).toBe(true);
+    expect(matchesURI('http://open-services.net/ns/cm#MyDefect', 'Defect')).toBe(false);
+    expect(matchesURI('http://open-services.net/ns/cm#Defect', 'http://open-services.net/ns/cm#Defect')).toBe(true);
+    expect(matchesURI('http://open-services.net/ns/cm#Defect', 'urn:Defect')).toBe(false);
+    expect(matchesURI('http://open-services.net/ns/cm#Defect', $rdf.sym('http://open-services.net/ns/cm#Defect'))).toBe(
+      true
+    );
+  });
+});
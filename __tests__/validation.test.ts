@@ -0,0 +1,58 @@
+import * as $rdf from 'rdflib';
+import { describe, expect, test } from 'vitest';
+import OSLCResource from '../src/OSLCResource.js';
+import ResourceShape from '../src/ResourceShape.js';
+import { validateResource } from '../src/validation.js';
+
+const shapeURI = 'https://jazz.example/ccm/shapes/defect';
+const resourceURI = 'https://jazz.example/ccm/resource/1';
+
+function graph(turtle: string, base: string): $rdf.IndexedFormula {
+  const store = $rdf.graph();
+  $rdf.parse(
+    `@prefix oslc: <http://open-services.net/ns/core#>.
+     @prefix dcterms: <http://purl.org/dc/terms/>.
+     ${turtle}`,
+    store,
+    base,
+    'text/turtle'
+  );
+  return store;
+}
+
+const shape = new ResourceShape(
+  shapeURI,
+  graph(
+    `<${shapeURI}> a oslc:ResourceShape; oslc:property
+       [ oslc:propertyDefinition dcterms:title; oslc:name "title"; oslc:occurs oslc:Exactly-one ],
+       [ oslc:propertyDefinition dcterms:identifier; oslc:name "identifier"; oslc:readOnly true ],
+       [ oslc:propertyDefinition dcterms:subject; oslc:name "subject" ].`,
+    shapeURI
+  )
+);
+
+function resource(turtle: string): OSLCResource {
+  return new OSLCResource(resourceURI, graph(`<${resourceURI}> ${turtle}.`, resourceURI));
+}
+
+describe('validateResource', () => {
+  test('allows several values of a property without oslc:occurs', () => {
+    expect(validateResource(resource('dcterms:title "t"; dcterms:subject "a", "b"'), shape)).toEqual([]);
+  });
+
+  test('rejects read-only properties of a created resource', () => {
+    const violations = validateResource(resource('dcterms:title "t"; dcterms:identifier "1"'), shape);
+    expect(violations.map((violation) => violation.constraint)).toEqual(['readOnly']);
+  });
+
+  test('rejects read-only properties an update changed', () => {
+    const original = resource('dcterms:title "t"; dcterms:identifier "1"');
+    const options = { operation: 'update' as const, original };
+
+    expect(validateResource(resource('dcterms:title "u"; dcterms:identifier "1"'), shape, options)).toEqual([]);
+    const changed = validateResource(resource('dcterms:title "t"; dcterms:identifier "2"'), shape, options);
+    expect(changed).toMatchObject([{ constraint: 'readOnly', name: 'identifier' }]);
+    const removed = validateResource(resource('dcterms:title "t"'), shape, options);
+    expect(removed).toMatchObject([{ constraint: 'readOnly', name: 'identifier' }]);
+  });
+});
@@ -0,0 +1,63 @@
+/*
+ * HTTP transport using axios, with Node.js agents for cookies, TLS and proxies
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import type { CookieJar } from 'tough-cookie';
+import { createCookieJar, isNode } from './runtime.js';
+import type { Transport, TransportOptions, TransportRequest, TransportResponse } from './types.js';
+
+/**
+ * Sends requests with axios. In Node.js the cookies are kept in a cookie jar
+ * and the ca, rejectUnauthorized and proxy options apply; in browsers axios
+ * uses XMLHttpRequest and the browser keeps the cookies.
+ * @class
+ * @param {TransportOptions} options - the cookie jar, TLS and proxy settings
+ */
+export default class AxiosTransport implements Transport {
+  private options: TransportOptions;
+  private jar?: Promise<CookieJar | undefined>;
+  private client?: Promise<AxiosInstance>;
+
+  constructor(options: TransportOptions = {}) {
+    this.options = options;
+  }
+
+  cookieJar(): Promise<CookieJar | undefined> {
+    return (this.jar ??= createCookieJar(this.options.jar));
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const client = await (this.client ??= this.createClient());
+    const response = await client.request<string>({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      data: request.body,
+      signal: request.signal,
+      timeout: request.timeout,
+      maxRedirects: request.maxRedirects,
+      responseType: 'text',
+      validateStatus: () => true,
+    });
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value != null) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+    return { status: response.status, statusText: response.statusText, headers, body: response.data ?? '' };
+  }
+
+  private async createClient(): Promise<AxiosInstance> {
+    const jar = await this.cookieJar();
+    if (!jar) {
+      return axios.create({ withCredentials: true });
+    }
+    if (!isNode()) {
+      throw new Error('AxiosTransport needs Node.js or a browser, use FetchTransport in other runtimes');
+    }
+    const { createAgents } = await import('./agents.js');
+    return axios.create(createAgents(jar, this.options));
+  }
+}
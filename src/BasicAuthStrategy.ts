@@ -0,0 +1,44 @@
+/*
+ * HTTP Basic authentication
+ */
+
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AuthContext, AuthStrategy } from './types.js';
+
+/**
+ * Falls back to HTTP Basic authentication on any other 401, e.g., for a
+ * Jazz Authorization Server. Once a server has challenged, the credentials
+ * are sent with every following request to that server, and no other.
+ * @class
+ */
+export default class BasicAuthStrategy implements AuthStrategy {
+  readonly method = 'basic';
+  // The origins that asked for the credentials
+  private origins = new Set<string>();
+
+  detectChallenge(response: AxiosResponse): boolean {
+    return response.status === 401;
+  }
+
+  async authenticate(response: AxiosResponse): Promise<void> {
+    this.origins.add(new URL(response.config.url!, response.config.baseURL).origin);
+  }
+
+  decorateRequest(request: InternalAxiosRequestConfig, context: AuthContext): InternalAxiosRequestConfig {
+    if (this.origins.has(new URL(request.url!, request.baseURL).origin)) {
+      request.auth = {
+        username: context.userid,
+        password: context.password,
+      };
+    }
+    return request;
+  }
+
+  exportState(): unknown {
+    return { origins: [...this.origins] };
+  }
+
+  restoreState(state: { origins?: string[] }): void {
+    this.origins = new Set(state?.origins ?? []);
+  }
+}
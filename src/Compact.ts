@@ -27,10 +27,11 @@ import type { PreviewInfo } from './types.js';
  * @constructor
  * @param {string} uri - the URI of the Jazz rootservices resource
  * @param {IndexedFormula} store - the RDF Knowledge Base for this rootservices resource
+ * @param {string} etag - the ETag of the Compact representation, if any
  */
 export default class Compact extends OSLCResource {
-  constructor(uri: string, store: IndexedFormula) {
-    super(uri, store);
+  constructor(uri: string, store: IndexedFormula, etag: string | null = null) {
+    super(uri, store, etag);
   }
 
   /**
@@ -0,0 +1,113 @@
+/*
+ * HTTP transport using the fetch API, for browsers and edge runtimes
+ */
+
+import type { CookieJar } from 'tough-cookie';
+import { createCookieJar } from './runtime.js';
+import type { Transport, TransportOptions, TransportRequest, TransportResponse } from './types.js';
+
+const REDIRECT_STATUS = [301, 302, 303, 307, 308];
+
+// fetch follows at most 20 redirects, so do the same when following them here
+const DEFAULT_MAX_REDIRECTS = 20;
+
+// Dropped when a redirect leaves the origin, as fetch and axios do, so credentials don't follow it
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+/**
+ * Sends requests with the global fetch function, so it runs in browsers,
+ * browser extension service workers, Deno, Bun, Cloudflare Workers and Node.js.
+ *
+ * In browsers the browser keeps the cookies. Elsewhere they are kept in a
+ * cookie jar, and redirects are followed here so that cookies set along the
+ * way, such as a JSESSIONID after a login redirect, are stored and sent.
+ * The ca, rejectUnauthorized and proxy options are not supported by fetch.
+ * @class
+ * @param {TransportOptions} options - the cookie jar to use
+ * @param {Function} fetchFunction - the fetch implementation, defaults to globalThis.fetch
+ */
+export default class FetchTransport implements Transport {
+  private options: TransportOptions;
+  private fetch: typeof fetch;
+  private jar?: Promise<CookieJar | undefined>;
+
+  constructor(options: TransportOptions = {}, fetchFunction: typeof fetch = (...args) => globalThis.fetch(...args)) {
+    this.options = options;
+    this.fetch = fetchFunction;
+  }
+
+  cookieJar(): Promise<CookieJar | undefined> {
+    return (this.jar ??= createCookieJar(this.options.jar));
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const jar = await this.cookieJar();
+    const timeoutSignal = request.timeout ? AbortSignal.timeout(request.timeout) : undefined;
+    const signals = [request.signal, timeoutSignal].filter((signal): signal is AbortSignal => signal !== undefined);
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+    const maxRedirects = request.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+
+    let { method, url, body } = request;
+    const origin = new URL(url).origin;
+    try {
+      for (let redirects = 0; ; redirects++) {
+        const headers = { ...request.headers };
+        if (new URL(url).origin !== origin) {
+          for (const name of Object.keys(headers)) {
+            if (CREDENTIAL_HEADERS.includes(name.toLowerCase())) delete headers[name];
+          }
+        }
+        if (jar) {
+          const cookies = await jar.getCookieString(url);
+          if (cookies) headers['Cookie'] = cookies;
+        }
+        const response = await this.fetch(url, {
+          method,
+          headers,
+          body,
+          signal,
+          // With a jar the redirects are followed below, in browsers an unfollowed redirect is opaque
+          redirect: jar || maxRedirects === 0 ? 'manual' : 'follow',
+          credentials: jar ? 'omit' : 'include',
+        });
+        if (jar) {
+          for (const cookie of response.headers.getSetCookie()) {
+            await jar.setCookie(cookie, url, { ignoreError: true });
+          }
+        }
+
+        const location = response.headers.get('location');
+        if (!jar || !REDIRECT_STATUS.includes(response.status) || !location || redirects >= maxRedirects) {
+          return await this.toTransportResponse(response);
+        }
+        // Drain the redirect response so the connection can be reused
+        await response.arrayBuffer();
+        url = new URL(location, url).toString();
+        if (response.status === 303 || (method.toUpperCase() === 'POST' && response.status !== 307 && response.status !== 308)) {
+          method = 'GET';
+          body = undefined;
+        }
+      }
+    } catch (error) {
+      if (timeoutSignal?.aborted && !request.signal?.aborted) {
+        // The code axios uses, so the timeout is retried like any other
+        throw Object.assign(new Error(`timeout of ${request.timeout}ms exceeded`), { code: 'ECONNABORTED', cause: error });
+      }
+      throw error;
+    }
+  }
+
+  private async toTransportResponse(response: Response): Promise<TransportResponse> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    return {
+      // A redirect the browser didn't follow is opaque, but j_security_check only needs to know it happened
+      status: response.type === 'opaqueredirect' ? 302 : response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text(),
+    };
+  }
+}
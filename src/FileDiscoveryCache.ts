@@ -0,0 +1,72 @@
+/*
+ * JSON file storage for OSLCClient discovery documents
+ */
+
+import { isMissingFile } from './files.js';
+import type { CachedDocument, DiscoveryCache } from './types.js';
+
+/**
+ * Keeps discovery documents in a JSON file, so short-lived Node.js processes
+ * don't discover the server again each time they start. The file is read
+ * once, and rewritten whenever a document is fetched or revalidated.
+ * @class
+ * @param {string} path - the cache file
+ */
+export default class FileDiscoveryCache implements DiscoveryCache {
+  private path: string;
+  private documents?: Promise<Record<string, CachedDocument>>;
+  // Writes one at a time, so a slow write can't overwrite a later one
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<CachedDocument | undefined> {
+    const documents = await this.load();
+    return documents[key];
+  }
+
+  async set(key: string, document: CachedDocument): Promise<void> {
+    const documents = await this.load();
+    documents[key] = document;
+    await this.save(documents);
+  }
+
+  async clear(): Promise<void> {
+    const documents = await this.load();
+    for (const key of Object.keys(documents)) {
+      delete documents[key];
+    }
+    const { unlink } = await import('node:fs/promises');
+    try {
+      await unlink(this.path);
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+  }
+
+  private load(): Promise<Record<string, CachedDocument>> {
+    return (this.documents ??= (async () => {
+      const { readFile } = await import('node:fs/promises');
+      try {
+        return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, CachedDocument>;
+      } catch (error) {
+        // A missing or damaged cache is rebuilt
+        if (isMissingFile(error) || error instanceof SyntaxError) return {};
+        throw error;
+      }
+    })());
+  }
+
+  private save(documents: Record<string, CachedDocument>): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const { writeFile } = await import('node:fs/promises');
+        // Catalogs list the projects the user may see, so only the user may read them
+        await writeFile(this.path, JSON.stringify(documents), { encoding: 'utf8', mode: 0o600 });
+      });
+    return this.writing;
+  }
+}
@@ -0,0 +1,45 @@
+/*
+ * JSON file storage for OSLCClient sessions
+ */
+
+import { isMissingFile } from './files.js';
+import type { SessionData, SessionStore } from './types.js';
+
+/**
+ * Keeps an OSLCClient session in a JSON file, so short-lived Node.js
+ * processes can reuse a login. The file holds session cookies and tokens,
+ * so it is only readable by its owner.
+ * @class
+ * @param {string} path - the session file
+ */
+export default class FileSessionStore implements SessionStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<SessionData | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as SessionData;
+    } catch (error) {
+      if (isMissingFile(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async save(session: SessionData): Promise<void> {
+    const { writeFile } = await import('node:fs/promises');
+    await writeFile(this.path, JSON.stringify(session), { encoding: 'utf8', mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    const { unlink } = await import('node:fs/promises');
+    try {
+      await unlink(this.path);
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/*
+ * JEE form-based authentication for Jazz servers
+ */
+
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AuthContext, AuthStrategy } from './types.js';
+
+/**
+ * Answers the Jazz JEE form authentication challenge, signalled by the
+ * x-com-ibm-team-repository-web-auth-msg: authrequired response header,
+ * by posting the credentials to the application's j_security_check.
+ * The resulting JSESSIONID is kept in the client's cookie jar, so there
+ * is nothing to add to outgoing requests.
+ * @class
+ */
+export default class FormAuthStrategy implements AuthStrategy {
+  readonly method = 'form';
+
+  detectChallenge(response: AxiosResponse): boolean {
+    return response?.headers?.['x-com-ibm-team-repository-web-auth-msg'] === 'authrequired';
+  }
+
+  async authenticate(response: AxiosResponse, context: AuthContext): Promise<void> {
+    // JEE form auth uses j_username and j_password posted to the context root
+    const url = new URL(response.config.url!);
+    const paths = url.pathname.split('/');
+    url.pathname = paths[1] ? `/${paths[1]}/j_security_check` : '/j_security_check';
+
+    // In browser, form-based auth may require a backend proxy due to CORS
+    if (!context.isNodeEnvironment) {
+      context.logger.warn('Form-based authentication in browser requires CORS-enabled backend or proxy');
+    }
+
+    await context.client.post(
+      url.toString(),
+      new URLSearchParams({
+        j_username: context.userid,
+        j_password: context.password,
+      }).toString(),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        maxRedirects: 0,
+        signal: response.config.signal,
+        validateStatus: (status: number) => status === 302, // for successful login
+      }
+    );
+  }
+
+  decorateRequest(request: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    return request;
+  }
+}
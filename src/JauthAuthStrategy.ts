@@ -0,0 +1,63 @@
+/*
+ * Jazz Authorization Server jauth realm token authentication
+ */
+
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AuthContext, AuthStrategy } from './types.js';
+
+/**
+ * Answers a 401 with a WWW-Authenticate: jauth realm challenge by posting
+ * the credentials to the advertised token_uri. The returned token is sent
+ * as a Bearer Authorization header on every following request to the
+ * server that challenged, and no other.
+ * @class
+ */
+export default class JauthAuthStrategy implements AuthStrategy {
+  readonly method = 'jauth';
+  // Tokens by the origin that challenged for them
+  private tokens = new Map<string, string>();
+
+  detectChallenge(response: AxiosResponse): boolean {
+    const wwwAuthenticate = response?.headers?.['www-authenticate'];
+    return response.status === 401 && !!wwwAuthenticate?.includes('jauth realm');
+  }
+
+  async authenticate(response: AxiosResponse, context: AuthContext): Promise<void> {
+    const wwwAuthenticate: string = response.headers['www-authenticate'];
+    const token_uri = wwwAuthenticate.match(/token_uri="([^"]+)"/)?.[1];
+    if (!token_uri) {
+      throw new Error('No token_uri found in jauth challenge');
+    }
+    const tokenResponse = await context.client.post(
+      token_uri,
+      new URLSearchParams({
+        username: context.userid,
+        password: context.password,
+      }).toString(),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'text/plain',
+        },
+        signal: response.config.signal,
+      }
+    );
+    this.tokens.set(new URL(response.config.url!, response.config.baseURL).origin, tokenResponse.data);
+  }
+
+  decorateRequest(request: InternalAxiosRequestConfig): InternalAxiosRequestConfig {
+    const token = this.tokens.get(new URL(request.url!, request.baseURL).origin);
+    if (token) {
+      request.headers['Authorization'] = `Bearer ${token}`;
+    }
+    return request;
+  }
+
+  exportState(): unknown {
+    return { tokens: Object.fromEntries(this.tokens) };
+  }
+
+  restoreState(state: { tokens?: Record<string, string> }): void {
+    this.tokens = new Map(Object.entries(state?.tokens ?? {}));
+  }
+}
@@ -0,0 +1,184 @@
+/*
+ * Link previews for many resources, from OSLC Compact with a fallback to the resource itself
+ */
+
+import type Compact from './Compact.js';
+import OSLCResource from './OSLCResource.js';
+import type OSLCClient from './OSLCClient.js';
+import { AbortError, isCompactUnsupported, OSLCError, TimeoutError } from './errors.js';
+import { abortable, callSignal } from './signals.js';
+import type { LinkPreview, LinkPreviewOptions, RequestOptions } from './types.js';
+
+interface CachedPreview {
+  preview: LinkPreview;
+  expires: number;
+}
+
+/**
+ * Resolves the previews of linked resources, such as the links a dashboard
+ * renders, through an OSLCClient. A preview comes from the resource's OSLC
+ * Compact representation, or from its dcterms:title and oslc:shortTitle when
+ * the server has no Compact support.
+ *
+ * Previews are cached by configuration context and URL, and a URL requested
+ * again while it is being resolved shares the request. resolveAll() resolves
+ * a few links at a time so previews don't crowd out the client's other requests.
+ * @class
+ * @param {OSLCClient} client - the client to fetch the resources with
+ * @param {LinkPreviewOptions} options - the concurrency and cache limits
+ */
+export default class LinkPreviewResolver {
+  private client: OSLCClient;
+  private concurrency: number;
+  private ttl: number;
+  private maxEntries: number;
+  // Resolved previews, in least recently used order
+  private cache: Map<string, CachedPreview> = new Map();
+  private pending: Map<string, Promise<LinkPreview>> = new Map();
+
+  constructor(client: OSLCClient, options: LinkPreviewOptions = {}) {
+    this.client = client;
+    this.concurrency = Math.max(1, options.concurrency ?? 6);
+    this.ttl = options.ttl ?? 300000;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Get the preview of a resource
+   *
+   * @param {string} url - the URL of the resource
+   * @param {RequestOptions} options - Cancellation signal and timeout
+   * @returns {LinkPreview} the preview
+   * @throws {OSLCError} if neither the Compact representation nor the resource could be read
+   */
+  async resolve(url: string, options: RequestOptions = {}): Promise<LinkPreview> {
+    const key = this.key(url);
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      // Move it to the end, as the most recently used
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.preview;
+    }
+    this.cache.delete(key);
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.fetchPreview(url)
+        .then((preview) => {
+          this.store(key, preview);
+          return preview;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return LinkPreviewResolver.abortable(url, pending, callSignal(options));
+  }
+
+  /**
+   * Get the previews of many resources, a few at a time. A link that cannot
+   * be resolved gets a preview with only its url and the error, so one broken
+   * link doesn't fail the whole page.
+   *
+   * @param {string[]} urls - the URLs of the resources
+   * @param {RequestOptions} options - Cancellation signal and timeout for all the links
+   * @returns {LinkPreview[]} the previews, in the order of the URLs
+   * @throws {AbortError} if the signal aborts or the timeout expires
+   */
+  async resolveAll(urls: string[], options: RequestOptions = {}): Promise<LinkPreview[]> {
+    const signal = callSignal(options);
+    const previews: LinkPreview[] = new Array(urls.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < urls.length) {
+        const index = next++;
+        try {
+          previews[index] = await this.resolve(urls[index], { signal });
+        } catch (error) {
+          if (error instanceof AbortError) throw error;
+          previews[index] = { url: urls[index], error: error as Error };
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, urls.length) }, worker));
+    return previews;
+  }
+
+  /**
+   * Forget the preview of a resource, for instance after it was updated
+   *
+   * @param {string} url - the URL of the resource
+   */
+  invalidate(url: string): void {
+    this.cache.delete(this.key(url));
+  }
+
+  /**
+   * Forget all the previews
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private key(url: string): string {
+    return `${this.client.configurationContext ?? ''} ${url}`;
+  }
+
+  private store(key: string, preview: LinkPreview): void {
+    this.cache.set(key, { preview, expires: Date.now() + this.ttl });
+    for (const oldest of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private async fetchPreview(url: string): Promise<LinkPreview> {
+    let compact: Compact;
+    try {
+      compact = await this.client.getCompactResource(url);
+    } catch (error) {
+      if (!isCompactUnsupported(error)) throw error;
+      return this.fetchResourcePreview(url);
+    }
+    const title = compact.getTitle();
+    const shortTitle = compact.getShortTitle();
+    // A server ignoring the Accept header may describe some other resource
+    if (title === undefined && shortTitle === undefined) {
+      return this.fetchResourcePreview(url);
+    }
+    return {
+      url,
+      title,
+      shortTitle,
+      icon: compact.getIcon(),
+      iconTitle: compact.getIconTitle(),
+      smallPreview: compact.getSmallPreview() ?? undefined,
+      largePreview: compact.getLargePreview() ?? undefined,
+      source: 'compact',
+      etag: compact.etag,
+    };
+  }
+
+  private async fetchResourcePreview(url: string): Promise<LinkPreview> {
+    const resource = await this.client.getResource(url);
+    if (!(resource instanceof OSLCResource)) {
+      throw new OSLCError(`GET ${url} did not return an RDF resource to preview`, { url, method: 'GET' });
+    }
+    return {
+      url,
+      title: resource.getTitle(),
+      shortTitle: resource.getShortTitle(),
+      source: 'resource',
+      etag: resource.etag,
+    };
+  }
+
+  // Stop waiting for a shared request when the caller aborts, the request carries on for the others
+  private static abortable(url: string, preview: Promise<LinkPreview>, signal?: AbortSignal): Promise<LinkPreview> {
+    return abortable(preview, signal, () =>
+      signal!.reason?.name === 'TimeoutError'
+        ? new TimeoutError(`Resolving the preview of ${url} timed out`, { url, cause: signal!.reason })
+        : new AbortError(`Resolving the preview of ${url} was aborted`, { url, cause: signal!.reason })
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/*
+ * In-memory storage for OSLCClient discovery documents
+ */
+
+import type { CachedDocument, DiscoveryCache } from './types.js';
+
+/**
+ * Keeps discovery documents for the lifetime of the process. Share one
+ * between clients to discover each server once.
+ * @class
+ */
+export default class MemoryDiscoveryCache implements DiscoveryCache {
+  private documents = new Map<string, CachedDocument>();
+
+  async get(key: string): Promise<CachedDocument | undefined> {
+    return this.documents.get(key);
+  }
+
+  async set(key: string, document: CachedDocument): Promise<void> {
+    this.documents.set(key, document);
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+  }
+}
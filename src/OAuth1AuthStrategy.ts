@@ -0,0 +1,280 @@
+/*
+ * OAuth 1.0a consumer authentication for Jazz friends
+ */
+
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as $rdf from 'rdflib';
+import RootServices from './RootServices.js';
+import type {
+  AuthContext,
+  AuthStrategy,
+  OAuth1Config,
+  OAuth1Endpoints,
+  OAuth1Token,
+} from './types.js';
+
+// RFC 5849 section 3.6 percent-encoding
+function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+async function hmacSha1(key: string, text: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(text)));
+  return btoa(String.fromCharCode(...signature));
+}
+
+function parseTokenResponse(data: string): OAuth1Token & Record<string, string> {
+  const params = Object.fromEntries(new URLSearchParams(String(data)));
+  if (!params.oauth_token) {
+    throw new Error(`Invalid OAuth token response: ${data}`);
+  }
+  return { ...params, token: params.oauth_token, tokenSecret: params.oauth_token_secret ?? '' };
+}
+
+/**
+ * Signs requests as an OAuth 1.0a consumer (a Jazz "friend") using HMAC-SHA1.
+ * With an access token the requests are made on behalf of the user who
+ * authorized it; without one they are two-legged, which Jazz maps to the
+ * functional user configured for the consumer.
+ *
+ * When the server rejects the signature and an authorize callback is
+ * configured, the strategy runs the request token, user authorization and
+ * access token steps using the endpoints from the server's rootservices.
+ * @class
+ */
+export default class OAuth1AuthStrategy implements AuthStrategy {
+  readonly method = 'oauth1';
+  private config: OAuth1Config;
+  private endpoints?: OAuth1Endpoints;
+  private accessToken?: OAuth1Token;
+
+  constructor(config: OAuth1Config) {
+    this.config = config;
+    this.endpoints = config.endpoints;
+    if (config.token) {
+      this.accessToken = { token: config.token, tokenSecret: config.tokenSecret ?? '' };
+    }
+  }
+
+  /**
+   * The access token in use, so it can be stored and reused by later clients
+   */
+  get token(): OAuth1Token | undefined {
+    return this.accessToken;
+  }
+
+  /**
+   * Use the OAuth endpoints of a rootservices document
+   *
+   * @param {RootServices} rootservices - the server rootservices
+   */
+  useRootServices(rootservices: RootServices): void {
+    const endpoints = rootservices.oauthEndpoints();
+    if (!endpoints) {
+      throw new Error(`No OAuth endpoints advertised in ${rootservices.getURI()}`);
+    }
+    this.endpoints = endpoints;
+  }
+
+  exportState(): unknown {
+    return this.accessToken;
+  }
+
+  restoreState(state: OAuth1Token | undefined): void {
+    if (state?.token) {
+      this.accessToken = state;
+    }
+  }
+
+  detectChallenge(response: AxiosResponse): boolean {
+    const wwwAuthenticate = response?.headers?.['www-authenticate'];
+    return (
+      response.status === 401 &&
+      typeof wwwAuthenticate === 'string' &&
+      /^oauth\b/i.test(wwwAuthenticate) &&
+      !!this.config.authorize
+    );
+  }
+
+  async authenticate(response: AxiosResponse, context: AuthContext): Promise<void> {
+    if (!this.endpoints) {
+      // rootservices lives at the application context root
+      const url = new URL(response.config.url!);
+      const paths = url.pathname.split('/');
+      url.pathname = paths[1] ? `/${paths[1]}/rootservices` : '/rootservices';
+      url.search = '';
+      const rootservicesResponse = await context.client.get(url.toString(), {
+        headers: { Accept: 'application/rdf+xml' },
+        signal: response.config.signal,
+      });
+      const store = $rdf.graph();
+      $rdf.parse(rootservicesResponse.data, store, url.toString(), 'application/rdf+xml');
+      this.useRootServices(new RootServices(url.toString(), store));
+    }
+    this.accessToken = undefined;
+    await this.authorize(context, response.config.signal as AbortSignal | undefined);
+  }
+
+  /**
+   * Run the OAuth 1.0a dance: get a request token, have the user authorize it
+   * through the configured authorize callback, and exchange it for an access token
+   *
+   * @param {AuthContext} context - provides the HTTP client for the token requests
+   * @param {AbortSignal} signal - cancels the token requests
+   * @returns {OAuth1Token} the access token
+   */
+  async authorize(context: AuthContext, signal?: AbortSignal): Promise<OAuth1Token> {
+    if (!this.endpoints) {
+      throw new Error('OAuth endpoints not known, call useRootServices() first');
+    }
+    if (!this.config.authorize) {
+      throw new Error('An authorize callback is required to obtain an OAuth access token');
+    }
+
+    // Temporary credentials
+    const callback = this.config.callback ?? 'oob';
+    const requestTokenResponse = await context.client.post(this.endpoints.requestTokenUrl, '', {
+      headers: {
+        Authorization: await this.authorizationHeader('POST', this.endpoints.requestTokenUrl, undefined, {
+          oauth_callback: callback,
+        }),
+      },
+      signal,
+    });
+    const requestToken = parseTokenResponse(requestTokenResponse.data);
+
+    // Resource owner authorization
+    const authorizationUrl = new URL(this.endpoints.userAuthorizationUrl);
+    authorizationUrl.searchParams.set('oauth_token', requestToken.token);
+    const verifier = await this.config.authorize(authorizationUrl.toString());
+
+    // Token credentials
+    const extra: Record<string, string> = verifier ? { oauth_verifier: verifier } : {};
+    const accessTokenResponse = await context.client.post(this.endpoints.accessTokenUrl, '', {
+      headers: {
+        Authorization: await this.authorizationHeader(
+          'POST',
+          this.endpoints.accessTokenUrl,
+          requestToken,
+          extra
+        ),
+      },
+      signal,
+    });
+    const { token, tokenSecret } = parseTokenResponse(accessTokenResponse.data);
+    this.accessToken = { token, tokenSecret };
+    return this.accessToken;
+  }
+
+  async decorateRequest(request: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> {
+    const url = new URL(request.url!, request.baseURL);
+    for (const [key, value] of Object.entries(request.params ?? {})) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value));
+      }
+    }
+    // Form-encoded bodies are part of the signature base string
+    const contentType = String(request.headers.getContentType() ?? '');
+    const formParams =
+      typeof request.data === 'string' && contentType.includes('application/x-www-form-urlencoded')
+        ? new URLSearchParams(request.data)
+        : undefined;
+    request.headers['Authorization'] = await this.authorizationHeader(
+      (request.method ?? 'get').toUpperCase(),
+      url.toString(),
+      this.accessToken,
+      {},
+      formParams
+    );
+    return request;
+  }
+
+  /**
+   * Build the signature base string of a request, RFC 5849 section 3.4.1
+   *
+   * @param {string} method - the HTTP method
+   * @param {string} requestUrl - the full request URL, its query parameters are signed too
+   * @param {[string, string][]} params - the oauth_ protocol parameters and form-encoded body parameters
+   * @returns {string} the signature base string
+   */
+  static signatureBaseString(method: string, requestUrl: string, params: [string, string][]): string {
+    const url = new URL(requestUrl);
+    const normalizedParams = [...params, ...url.searchParams.entries()]
+      .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+      .sort(([k1, v1], [k2, v2]) => (k1 === k2 ? (v1 < v2 ? -1 : 1) : k1 < k2 ? -1 : 1))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+    // URL normalizes the scheme and host case and drops default ports
+    const baseUrl = `${url.protocol}//${url.host}${url.pathname}`;
+    return [method.toUpperCase(), percentEncode(baseUrl), percentEncode(normalizedParams)].join('&');
+  }
+
+  /**
+   * Sign a signature base string with HMAC-SHA1, RFC 5849 section 3.4.2
+   *
+   * @param {string} baseString - the signature base string
+   * @param {string} consumerSecret - the consumer secret
+   * @param {string} tokenSecret - the token secret, if signing with a token
+   * @returns {string} the base64 signature
+   */
+  static sign(baseString: string, consumerSecret: string, tokenSecret = ''): Promise<string> {
+    return hmacSha1(`${percentEncode(consumerSecret)}&${percentEncode(tokenSecret)}`, baseString);
+  }
+
+  /**
+   * Build an HMAC-SHA1 signed OAuth Authorization header value
+   *
+   * @param {string} method - the HTTP method
+   * @param {string} requestUrl - the full request URL, including its query
+   * @param {OAuth1Token} token - the token to sign with, if any
+   * @param {Record<string, string>} extra - additional oauth_ protocol parameters
+   * @param {URLSearchParams} formParams - form-encoded body parameters
+   * @returns {string} the Authorization header value
+   */
+  private async authorizationHeader(
+    method: string,
+    requestUrl: string,
+    token: OAuth1Token | undefined,
+    extra: Record<string, string> = {},
+    formParams?: URLSearchParams
+  ): Promise<string> {
+    const oauthParams: Record<string, string> = {
+      oauth_consumer_key: this.config.consumerKey,
+      oauth_nonce: crypto.randomUUID().replace(/-/g, ''),
+      oauth_signature_method: 'HMAC-SHA1',
+      oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+      oauth_version: '1.0',
+      ...extra,
+    };
+    if (token) {
+      oauthParams.oauth_token = token.token;
+    }
+
+    const baseString = OAuth1AuthStrategy.signatureBaseString(method, requestUrl, [
+      ...Object.entries(oauthParams),
+      ...(formParams?.entries() ?? []),
+    ]);
+    oauthParams.oauth_signature = await OAuth1AuthStrategy.sign(
+      baseString,
+      this.config.consumerSecret,
+      token?.tokenSecret
+    );
+
+    const realm = this.endpoints?.realm ? [`realm="${this.endpoints.realm}"`] : [];
+    const fields = Object.entries(oauthParams).map(
+      ([name, value]) => `${percentEncode(name)}="${percentEncode(value)}"`
+    );
+    return `OAuth ${[...realm, ...fields].join(', ')}`;
+  }
+}
@@ -0,0 +1,212 @@
+/*
+ * OpenID Connect / OAuth 2.0 bearer token authentication
+ */
+
+import { isCancel, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import type { AuthContext, AuthStrategy, OIDCConfig, TokenSet } from './types.js';
+
+// Token endpoint response, see RFC 6749 section 5.1
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+/**
+ * Sends an OAuth 2.0 bearer token with every request, such as those issued
+ * by the Jazz Authorization Server's OpenID Connect provider.
+ *
+ * Tokens come from a TokenProvider callback, the refresh_token grant, or the
+ * client_credentials grant, in that order of preference. Expiry is tracked so
+ * a token is refreshed before it runs out rather than after a 401, and
+ * concurrent requests share a single refresh. Only requests to the configured
+ * servers, the issuer's and those that challenged carry the token.
+ * @class
+ */
+export default class OIDCAuthStrategy implements AuthStrategy {
+  readonly method = 'oidc';
+  private config: OIDCConfig;
+  private tokenSet?: TokenSet;
+  private refreshing?: Promise<TokenSet>;
+  private tokenEndpoint?: string;
+  // The origins the token is sent to
+  private origins: Set<string>;
+
+  constructor(config: OIDCConfig) {
+    this.config = config;
+    this.tokenEndpoint = config.tokenEndpoint;
+    this.origins = new Set(
+      [config.issuer, ...(config.servers ?? [])]
+        .filter((url): url is string => !!url)
+        .map((url) => new URL(url).origin)
+    );
+  }
+
+  /**
+   * The current token set, if one has been obtained
+   */
+  get tokens(): TokenSet | undefined {
+    return this.tokenSet;
+  }
+
+  /**
+   * Use a token set obtained elsewhere, e.g. restored from storage
+   *
+   * @param {TokenSet} tokens - the tokens to use
+   */
+  setTokens(tokens: TokenSet): void {
+    this.tokenSet = tokens;
+  }
+
+  exportState(): unknown {
+    return this.tokenSet;
+  }
+
+  restoreState(state: TokenSet | undefined): void {
+    // A refresh token is still useful after the access token expired
+    if (state?.accessToken) {
+      this.tokenSet = state;
+    }
+  }
+
+  detectChallenge(response: AxiosResponse): boolean {
+    const wwwAuthenticate = response?.headers?.['www-authenticate'];
+    return (
+      response.status === 401 && typeof wwwAuthenticate === 'string' && /^bearer\b/i.test(wwwAuthenticate)
+    );
+  }
+
+  async authenticate(response: AxiosResponse, context: AuthContext): Promise<void> {
+    this.origins.add(new URL(response.config.url!, response.config.baseURL).origin);
+    // The token was rejected, so it doesn't matter when it claims to expire
+    await this.refresh(context, response.config.signal as AbortSignal | undefined);
+  }
+
+  async decorateRequest(
+    request: InternalAxiosRequestConfig,
+    context: AuthContext
+  ): Promise<InternalAxiosRequestConfig> {
+    if (!this.origins.has(new URL(request.url!, request.baseURL).origin)) {
+      return request;
+    }
+    const tokens = this.isValid()
+      ? this.tokenSet!
+      : await this.refresh(context, request.signal as AbortSignal | undefined);
+    request.headers['Authorization'] = `Bearer ${tokens.accessToken}`;
+    return request;
+  }
+
+  private isValid(): boolean {
+    if (!this.tokenSet) return false;
+    if (this.tokenSet.expiresAt === undefined) return true;
+    return Date.now() < this.tokenSet.expiresAt - (this.config.refreshSkew ?? 60000);
+  }
+
+  /**
+   * Obtain a new token set, sharing one refresh between concurrent callers.
+   * The token requests use the signal of the caller that started the refresh.
+   *
+   * @param {AuthContext} context - provides the HTTP client for the token endpoint
+   * @param {AbortSignal} signal - cancels the token requests
+   * @returns {TokenSet} the new tokens
+   */
+  private async refresh(context: AuthContext, signal?: AbortSignal): Promise<TokenSet> {
+    for (;;) {
+      this.refreshing ??= this.fetchTokens(context, signal)
+        .then((tokens) => {
+          this.tokenSet = tokens;
+          return tokens;
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+      try {
+        return await this.refreshing;
+      } catch (error) {
+        // Another caller cancelled the shared refresh, start one of our own
+        if (!isCancel(error) || signal?.aborted) throw error;
+      }
+    }
+  }
+
+  private async fetchTokens(context: AuthContext, signal?: AbortSignal): Promise<TokenSet> {
+    if (this.config.tokenProvider) {
+      const tokens = await this.config.tokenProvider();
+      return typeof tokens === 'string' ? { accessToken: tokens } : tokens;
+    }
+
+    const refreshToken = this.tokenSet?.refreshToken ?? this.config.refreshToken;
+    if (refreshToken) {
+      try {
+        return await this.requestTokens(
+          context,
+          { grant_type: 'refresh_token', refresh_token: refreshToken },
+          signal
+        );
+      } catch (error) {
+        // An expired refresh token can still be replaced using the client credentials
+        if (!this.config.clientSecret || isCancel(error)) throw error;
+      }
+    }
+    if (this.config.clientId && this.config.clientSecret) {
+      return this.requestTokens(context, { grant_type: 'client_credentials' }, signal);
+    }
+    throw new Error('No token provider, refresh token or client credentials configured for OIDC');
+  }
+
+  private async requestTokens(
+    context: AuthContext,
+    grant: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<TokenSet> {
+    const tokenEndpoint = await this.getTokenEndpoint(context, signal);
+    const params = new URLSearchParams(grant);
+    if (this.config.scope) {
+      params.set('scope', this.config.scope);
+    }
+    // Public clients identify themselves in the body, confidential ones use client_secret_basic
+    if (this.config.clientId && !this.config.clientSecret) {
+      params.set('client_id', this.config.clientId);
+    }
+    const response = await context.client.post<TokenResponse>(tokenEndpoint, params.toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      auth:
+        this.config.clientId && this.config.clientSecret
+          ? { username: this.config.clientId, password: this.config.clientSecret }
+          : undefined,
+      signal,
+    });
+    const { access_token, expires_in, refresh_token } = response.data;
+    if (!access_token) {
+      throw new Error(`No access_token in response from ${tokenEndpoint}`);
+    }
+    return {
+      accessToken: access_token,
+      refreshToken: refresh_token ?? grant.refresh_token,
+      expiresAt: expires_in !== undefined ? Date.now() + expires_in * 1000 : undefined,
+    };
+  }
+
+  private async getTokenEndpoint(context: AuthContext, signal?: AbortSignal): Promise<string> {
+    if (this.tokenEndpoint) {
+      return this.tokenEndpoint;
+    }
+    if (!this.config.issuer) {
+      throw new Error('Either an OIDC tokenEndpoint or issuer is required');
+    }
+    const issuer = this.config.issuer.endsWith('/') ? this.config.issuer.slice(0, -1) : this.config.issuer;
+    const response = await context.client.get(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+    const tokenEndpoint = response.data?.token_endpoint;
+    if (!tokenEndpoint) {
+      throw new Error(`No token_endpoint in the OpenID configuration of ${issuer}`);
+    }
+    this.tokenEndpoint = tokenEndpoint;
+    return tokenEndpoint;
+  }
+}
@@ -1,5 +1,11 @@
 import axios, {
+  isAxiosError,
+  AxiosError,
+  CanceledError,
+  type AxiosAdapter,
+  AxiosHeaders,
   type AxiosInstance,
+  type AxiosRequestConfig,
   type AxiosResponse,
   type InternalAxiosRequestConfig,
   type CreateAxiosDefaults,
@@ -9,53 +15,290 @@ import * as $rdf from "rdflib";
 import type { IndexedFormula } from "rdflib";
 import type { NamedNode, Quad_Subject } from "rdflib/lib/tf-types";
 import type { Document, DOMParser as XMLDOMParser } from "@xmldom/xmldom";
-import type { CookieJar as ToughCookieJar, Cookie } from "tough-cookie";
-import type { wrapper as AxiosCookieJarWrapper } from "axios-cookiejar-support";
-import { rdfs, oslc, oslc_cm1, oslc_rm, oslc_qm1 } from "./namespaces.js";
+import type { Cookie } from "tough-cookie";
+import {
+  rdf,
+  rdfs,
+  dcterms,
+  ldp,
+  oslc,
+  oslc_cm,
+  oslc_cm1,
+  oslc_rm,
+  oslc_qm,
+  oslc_qm1,
+  oslc_am,
+  oslc_auto,
+  oslc_config,
+} from "./namespaces.js";
 import OSLCResource from "./OSLCResource.js";
 import Compact from "./Compact.js";
 import RootServices from "./RootServices.js";
 import ServiceProviderCatalog from "./ServiceProviderCatalog.js";
 import ServiceProvider from "./ServiceProvider.js";
-import type { QueryParams, AtomFeed, SPARQLResults } from "./types.js";
+import ResourceShape from "./ResourceShape.js";
+import QueryBuilder from "./QueryBuilder.js";
+import { serializeSearchTerms, splitSearchText } from "./query.js";
+import { CreationFactory, QueryCapability } from "./services.js";
+import FormAuthStrategy from "./FormAuthStrategy.js";
+import JauthAuthStrategy from "./JauthAuthStrategy.js";
+import BasicAuthStrategy from "./BasicAuthStrategy.js";
+import OAuth1AuthStrategy from "./OAuth1AuthStrategy.js";
+import RetryPolicy from "./RetryPolicy.js";
+import RequestScheduler from "./RequestScheduler.js";
+import AxiosTransport from "./AxiosTransport.js";
+import FetchTransport from "./FetchTransport.js";
+import MemoryDiscoveryCache from "./MemoryDiscoveryCache.js";
+import { isBrowser, isNode } from "./runtime.js";
+import { abortable, callSignal } from "./signals.js";
+import {
+  OSLCError,
+  AuthenticationError,
+  NotFoundError,
+  QueryError,
+  AbortError,
+  TimeoutError,
+  ValidationError,
+  isCompactUnsupported,
+} from "./errors.js";
+import { validateResource } from "./validation.js";
+import type {
+  QueryParams,
+  AtomFeed,
+  AuthMethod,
+  AuthStrategy,
+  AuthContext,
+  OSLCClientOptions,
+  OSLCClientConfig,
+  OAuth1Token,
+  Logger,
+  ClientHooks,
+  RequestOptions,
+  ProviderOptions,
+  ProviderSelector,
+  QueryResult,
+  QueryOptions,
+  QueryPageOptions,
+  ResponseInfo,
+  SearchHit,
+  SearchOptions,
+  SearchResult,
+  WriteOptions,
+  ServerDescription,
+  ServiceProviderInfo,
+  ServiceProviderSelector,
+  SessionData,
+  SessionStore,
+  CachedDocument,
+  DiscoveryCache,
+  Transport,
+  TransportResponse,
+} from "./types.js";
 
-// Conditional imports for Node.js only
 type BrowserDOMParser = {
   new (): {
     parseFromString(source: string, mimeType: string): Document;
   };
 };
-let wrapper: typeof AxiosCookieJarWrapper | undefined;
-let CookieJar: typeof ToughCookieJar | undefined;
-let DOMParser: typeof XMLDOMParser | BrowserDOMParser;
+let DOMParser: Promise<typeof XMLDOMParser | BrowserDOMParser> | undefined;
 
-// Type-safe environment detection using interface augmentation
-interface ExtendedGlobal {
-  window?: { DOMParser: BrowserDOMParser };
+// The native DOMParser where there is one, xmldom elsewhere, loaded on first use
+function loadDOMParser(): Promise<typeof XMLDOMParser | BrowserDOMParser> {
+  const native = (globalThis as { DOMParser?: BrowserDOMParser }).DOMParser;
+  return (DOMParser ??= native
+    ? Promise.resolve(native)
+    : import("@xmldom/xmldom").then((xmldom) => xmldom.DOMParser));
 }
-const isNodeEnvironment = typeof (globalThis as unknown as ExtendedGlobal).window === "undefined";
-
-if (isNodeEnvironment) {
-  // Node.js imports
-  const cookiejarSupport = await import("axios-cookiejar-support");
-  wrapper = cookiejarSupport.wrapper;
-  const toughCookie = await import("tough-cookie");
-  CookieJar = toughCookie.CookieJar;
-  const xmldom = await import("@xmldom/xmldom");
-  DOMParser = xmldom.DOMParser;
-} else {
-  // Browser: use native DOMParser
-  const globalWithWindow = globalThis as unknown as ExtendedGlobal;
-  DOMParser = globalWithWindow.window!.DOMParser;
+
+// Well-known domains: the rootservices property linking to their
+// ServiceProviderCatalog, and the oslc:domain used by jd:oslcCatalogs
+const oslcDomains: Record<string, { serviceProviders: NamedNode; namespace: string }> = {
+  CM: { serviceProviders: oslc_cm1("cmServiceProviders"), namespace: oslc_cm("").value },
+  RM: { serviceProviders: oslc_rm("rmServiceProviders"), namespace: oslc_rm("").value },
+  QM: { serviceProviders: oslc_qm1("qmServiceProviders"), namespace: oslc_qm("").value },
+  AM: { serviceProviders: oslc_am("amServiceProviders"), namespace: oslc_am("").value },
+  AUTO: { serviceProviders: oslc_auto("autoServiceProviders"), namespace: oslc_auto("").value },
+  CONFIG: { serviceProviders: oslc_config("cmServiceProviders"), namespace: oslc_config("").value },
+};
+
+// Well-known domains are case insensitive, others are namespace URIs
+function domainKey(domain: string): string {
+  return domain.toUpperCase() in oslcDomains ? domain.toUpperCase() : domain;
 }
 
-// Service providers properties
-const serviceProviders: Record<string, NamedNode> = {
-  CM: oslc_cm1("cmServiceProviders"),
-  RM: oslc_rm("rmServiceProviders"),
-  QM: oslc_qm1("qmServiceProviders"),
+// Authentication strategies tried when none are configured
+const defaultAuthMethods: AuthMethod[] = ["form", "jauth", "basic"];
+
+// Request state the client keeps on the axios config across retries
+type ClientRequestConfig = InternalAxiosRequestConfig & {
+  // Strategies that already answered a challenge for this request
+  authAttempted?: string[];
+  // Retry attempt number and when the request was sent, for tracing
+  attempt?: number;
+  sentAt?: number;
 };
 
+// Headers that carry credentials or session identifiers
+const sensitiveHeaders = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-jazz-csrf-prevent",
+];
+
+function redactHeaders(
+  headers: AxiosHeaders | AxiosResponse["headers"],
+): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  const entries = Object.entries(
+    headers instanceof AxiosHeaders ? headers.toJSON() : headers,
+  );
+  for (const [name, value] of entries) {
+    redacted[name] = sensitiveHeaders.includes(name.toLowerCase())
+      ? "[REDACTED]"
+      : String(value);
+  }
+  return redacted;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function toAbortError(signal: AbortSignal, config: AxiosRequestConfig): AbortError {
+  const method = (config.method ?? "get").toUpperCase();
+  const options = { url: config.url, method, cause: signal.reason };
+  return signal.reason?.name === "TimeoutError"
+    ? new TimeoutError(`${method} ${config.url} timed out`, options)
+    : new AbortError(`${method} ${config.url} was aborted`, options);
+}
+
+// Wrap axios failures in the matching OSLCError
+function toOSLCError(error: unknown, config: AxiosRequestConfig): unknown {
+  if (error instanceof OSLCError || !isAxiosError(error)) {
+    return error;
+  }
+  if (error.response) {
+    return OSLCError.fromResponse(error.response, error);
+  }
+  const method = (config.method ?? "get").toUpperCase();
+  const options = { url: config.url, method, cause: error };
+  // The transport's own timeout, from the client's timeout option
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new TimeoutError(`${method} ${config.url} timed out`, options);
+  }
+  return new OSLCError(
+    `${method} ${config.url} failed: ${error.message}`,
+    options,
+  );
+}
+
+function createTransport(options: OSLCClientConfig): Transport {
+  const transport = options.transport ?? (isNode() ? "axios" : "fetch");
+  if (typeof transport !== "string") {
+    return transport;
+  }
+  return transport === "axios"
+    ? new AxiosTransport(options)
+    : new FetchTransport(options);
+}
+
+function basicCredentials(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// Lets axios run its interceptors and config handling over any Transport
+function transportAdapter(transport: Transport): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig) => {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers.toJSON())) {
+      if (value != null && value !== false) {
+        headers[name] = String(value);
+      }
+    }
+    if (config.auth) {
+      headers["Authorization"] =
+        `Basic ${basicCredentials(config.auth.username, config.auth.password)}`;
+    }
+
+    let transportResponse: TransportResponse;
+    try {
+      transportResponse = await transport.request({
+        method: (config.method ?? "get").toUpperCase(),
+        url: axios.getUri(config),
+        headers,
+        body: config.data == null ? undefined : String(config.data),
+        signal: config.signal as AbortSignal | undefined,
+        timeout: config.timeout,
+        maxRedirects: config.maxRedirects,
+      });
+    } catch (error) {
+      if (config.signal?.aborted) {
+        throw new CanceledError(undefined, undefined, config);
+      }
+      // Network failures keep their code, e.g. ECONNRESET, so the retry policy recognizes them
+      const cause = error as { code?: string; cause?: { code?: string } };
+      throw AxiosError.from(error, cause.code ?? cause.cause?.code, config);
+    }
+
+    const response: AxiosResponse = {
+      data: transportResponse.body,
+      status: transportResponse.status,
+      statusText: transportResponse.statusText,
+      headers: transportResponse.headers,
+      config,
+    };
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response,
+      );
+    }
+    return response;
+  };
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function createAuthStrategy(auth: AuthMethod | AuthStrategy): AuthStrategy {
+  if (typeof auth !== "string") {
+    return auth;
+  }
+  switch (auth) {
+    case "form":
+      return new FormAuthStrategy();
+    case "jauth":
+      return new JauthAuthStrategy();
+    case "basic":
+      return new BasicAuthStrategy();
+    default:
+      throw new Error(`Unknown authentication method: ${auth}`);
+  }
+}
+
 /**
  * An OSLCClient provides a simple interface to access OSLC resources
  * and perform operations like querying, creating, and updating resources.
@@ -68,217 +311,754 @@ export default class OSLCClient {
   private rootservices: RootServices | null = null;
   private spc: ServiceProviderCatalog | null = null;
   private sp: ServiceProvider | null = null;
+  // Service providers bound by use(), by domain and title
+  private providers: Map<string, Map<string, ServiceProvider>> = new Map();
   private ownerMap: Map<string, string> = new Map();
+  // Shape documents by URL, shapes rarely change so they are read once
+  private shapeDocuments: Map<string, Promise<OSLCResource>> = new Map();
+  private discoveryCache: DiscoveryCache | null;
+  private discoveryCacheTTL: number;
   private isNodeEnvironment: boolean;
-  private jar?: InstanceType<typeof ToughCookieJar>;
+  private transport: Transport;
   private client: AxiosInstance;
   private base_url?: string;
+  private authStrategies: AuthStrategy[];
+  private authContext: AuthContext;
+  private retryPolicy: RetryPolicy | null;
+  private scheduler: RequestScheduler;
+  private logger: Logger;
+  private hooks: ClientHooks;
+  private currentAuthMethod?: string;
+  private sessionStore?: SessionStore;
+  private sessionMaxAge: number;
+  private sessionLoaded?: Promise<void>;
 
+  constructor(config: OSLCClientConfig);
   constructor(
     user: string,
     password: string,
+    configuration_context?: string | null,
+    options?: OSLCClientOptions,
+  );
+  constructor(
+    userOrConfig: string | OSLCClientConfig,
+    password?: string,
     configuration_context: string | null = null,
+    clientOptions: OSLCClientOptions = {},
   ) {
-    this.userid = user;
-    this.password = password;
-    this.configuration_context = configuration_context;
-    this.isNodeEnvironment = isNodeEnvironment;
+    const options: OSLCClientConfig =
+      typeof userOrConfig === "string"
+        ? {
+            ...clientOptions,
+            username: userOrConfig,
+            password: password!,
+            configurationContext: configuration_context ?? undefined,
+          }
+        : userOrConfig;
+    this.userid = options.username;
+    this.password = options.password;
+    this.configuration_context = options.configurationContext ?? null;
+    this.isNodeEnvironment = !isBrowser();
+    this.logger = options.logger ?? console;
+    this.hooks = options.hooks ?? {};
+    this.sessionStore = options.sessionStore;
+    this.sessionMaxAge = options.sessionMaxAge ?? 3600000;
+    this.discoveryCache =
+      options.discoveryCache === false
+        ? null
+        : (options.discoveryCache ?? new MemoryDiscoveryCache());
+    this.discoveryCacheTTL = options.discoveryCacheTTL ?? 600000;
 
-    if (isNodeEnvironment) {
-      this.jar = new CookieJar!();
-    }
+    this.transport = createTransport(options);
 
     // Create a base configuration
-    const baseConfig: CreateAxiosDefaults & { jar?: InstanceType<typeof ToughCookieJar>; keepAlive?: boolean } = {
-      timeout: 30000,
+    const baseConfig: CreateAxiosDefaults = {
+      baseURL: options.baseURL,
+      timeout: options.timeout ?? 30000,
       headers: {
         Accept:
           "application/rdf+xml, text/turtle;q=0.9, application/ld+json;q=0.8, application/json;q=0.7, application/xml;q=0.6, text/xml;q=0.5, */*;q=0.1",
         "OSLC-Core-Version": "2.0",
+        ...(options.userAgent && this.isNodeEnvironment
+          ? { "User-Agent": options.userAgent }
+          : {}),
+        ...options.headers,
       },
       validateStatus: (status: number) => status === 401 || status < 400, // Accept all 2xx responses
+      // The transport sends the requests, and keeps the cookies
+      adapter: transportAdapter(this.transport),
     };
-
-    // Configure for Node.js or Browser
-    if (isNodeEnvironment) {
-      // Node.js: use a cookie jar and keep-alive
-      baseConfig.keepAlive = true;
-      baseConfig.jar = this.jar;
-      this.client = wrapper!(axios.create(baseConfig));
-    } else {
-      // Browser: use withCredentials for automatic cookie handling
-      baseConfig.withCredentials = true;
-      this.client = axios.create(baseConfig);
-    }
+    this.client = axios.create(baseConfig);
 
     // Add the Configuration-Context header if one is given
-    if (configuration_context) {
+    if (this.configuration_context) {
       this.client.defaults.headers.common["Configuration-Context"] =
-        configuration_context;
+        this.configuration_context;
     }
 
+    // Strategies log in through a separate instance sharing the cookie jar,
+    // so their requests are not themselves subject to the auth interceptors
+    this.authStrategies = toArray(options.auth ?? defaultAuthMethods).map(
+      createAuthStrategy,
+    );
+    this.authContext = {
+      userid: this.userid,
+      password: this.password,
+      client: axios.create(baseConfig),
+      isNodeEnvironment: this.isNodeEnvironment,
+      logger: this.logger,
+    };
+    this.retryPolicy =
+      options.retry === false ? null : new RetryPolicy(options.retry);
+    this.scheduler = new RequestScheduler(options.scheduler);
+
+    // Trace every HTTP exchange. Request interceptors run in reverse order,
+    // so this one sees the headers after authentication has decorated them.
+    this.client.interceptors.request.use((request: ClientRequestConfig) => {
+      request.sentAt = Date.now();
+      this.emit("onRequest", {
+        method: (request.method ?? "get").toUpperCase(),
+        url: request.url!,
+        headers: redactHeaders(request.headers),
+        attempt: request.attempt ?? 1,
+      });
+      return request;
+    });
+    this.client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        this.traceResponse(response.config, response);
+        return response;
+      },
+      (error: unknown) => {
+        if (isAxiosError(error) && error.config) {
+          this.traceResponse(error.config, error.response, error);
+        }
+        return Promise.reject(error);
+      },
+    );
+
+    // Let the authentication strategies decorate every request
+    this.client.interceptors.request.use(async (request: InternalAxiosRequestConfig) => {
+      for (const strategy of this.authStrategies) {
+        request = await strategy.decorateRequest(request, this.authContext);
+      }
+      return request;
+    });
+
     // Response interceptor for handling auth challenges
     this.client.interceptors.response.use(async (response: AxiosResponse) => {
-      const originalRequest = response.config as InternalAxiosRequestConfig;
-      const wwwAuthenticate = response?.headers?.["www-authenticate"];
+      const originalRequest = response.config as ClientRequestConfig;
+      const attempted = originalRequest.authAttempted ?? [];
 
-      // Check if this is a JEE Forms authentication challenge
-      if (
-        response?.headers["x-com-ibm-team-repository-web-auth-msg"] ===
-        "authrequired"
-      ) {
-        try {
-          // Perform the login (JEE form auth typically uses j_username and j_password)
-          const url = new URL(response.config.url!);
-          const paths = url.pathname.split("/");
-          url.pathname = paths[1]
-            ? `/${paths[1]}/j_security_check`
-            : "/j_security_check";
-
-          // In browser, form-based auth may require a backend proxy due to CORS
-          if (!isNodeEnvironment) {
-            console.warn(
-              "Form-based authentication in browser requires CORS-enabled backend or proxy",
-            );
-          }
-
-          response = await this.client.post(
-            url.toString(),
-            new URLSearchParams({
-              j_username: this.userid,
-              j_password: this.password,
-            }).toString(),
+      // Each strategy gets one chance per request, which allows chained
+      // challenges (e.g., form auth redirecting to a jauth server) but no loops
+      const strategy = this.authStrategies.find(
+        (candidate) =>
+          !attempted.includes(candidate.method) && candidate.detectChallenge(response),
+      );
+      if (!strategy) {
+        // No authentication challenge, proceed with the response
+        return response;
+      }
+      if (originalRequest.signal?.aborted) {
+        return Promise.reject(
+          new CanceledError(undefined, undefined, originalRequest),
+        );
+      }
+      this.emit("onAuthChallenge", {
+        method: (originalRequest.method ?? "get").toUpperCase(),
+        url: originalRequest.url!,
+        status: response.status,
+        strategy: strategy.method,
+      });
+      try {
+        await strategy.authenticate(response, this.authContext);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Error during ${strategy.method} authentication:`, message);
+        return Promise.reject(
+          new AuthenticationError(
+            `${strategy.method} authentication failed: ${message}`,
             {
-              headers: {
-                "Content-Type": "application/x-www-form-urlencoded",
-              },
-              maxRedirects: 0,
-              validateStatus: (status: number) => status === 302, // for successful login
+              url: originalRequest.url,
+              method: originalRequest.method,
+              cause: error,
             },
-          );
-          // After successful login, retry the original request with updated cookies
-          response = await this.client.request(originalRequest);
-          return response;
-        } catch (error: unknown) {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error("Error during JEE authentication:", message);
-          return Promise.reject(error);
+          ),
+        );
+      }
+      // Retry the original request with the updated cookies or credentials
+      originalRequest.authAttempted = [...attempted, strategy.method];
+      const retried = await this.client.request(originalRequest);
+      this.currentAuthMethod = strategy.method;
+      void this.saveSession();
+      return retried;
+    });
+  }
+
+  /**
+   * Call a hook, making sure a failing hook doesn't break the request
+   *
+   * @param {string} name - the hook to call
+   * @param event - the event to pass it
+   */
+  private emit<K extends keyof ClientHooks>(
+    name: K,
+    event: Parameters<NonNullable<ClientHooks[K]>>[0],
+  ): void {
+    const hook = this.hooks[name] as ((e: typeof event) => void) | undefined;
+    try {
+      hook?.(event);
+    } catch (error) {
+      this.logger.warn(`Error in ${name} hook:`, error);
+    }
+  }
+
+  private traceResponse(
+    config: ClientRequestConfig,
+    response: AxiosResponse | undefined,
+    error?: unknown,
+  ): void {
+    this.emit("onResponse", {
+      method: (config.method ?? "get").toUpperCase(),
+      url: config.url!,
+      headers: response ? redactHeaders(response.headers) : {},
+      attempt: config.attempt ?? 1,
+      status: response?.status,
+      duration: Date.now() - (config.sentAt ?? Date.now()),
+      error,
+    });
+  }
+
+  /**
+   * Parse an RDF response body into a store. Parse errors are reported to
+   * the logger and onParseError hook rather than thrown, leaving whatever
+   * could be parsed in the store.
+   *
+   * @param {string} data - the response body
+   * @param {IndexedFormula} store - the store to add the triples to
+   * @param {string} url - the base URL for relative URIs
+   * @param {string} contentType - the response Content-Type
+   */
+  private parseRDF(
+    data: string,
+    store: IndexedFormula,
+    url: string,
+    contentType: string,
+  ): void {
+    try {
+      $rdf.parse(data, store, url, contentType);
+    } catch (error) {
+      this.logger.warn(`Error parsing ${contentType} from ${url}:`, error);
+      this.emit("onParseError", { url, contentType, error });
+    }
+  }
+
+  /**
+   * Resolve a URL against the baseURL option, so requests, parsed resources
+   * and errors all use absolute URLs
+   *
+   * @param {string} url - an absolute URL, or one relative to baseURL
+   * @returns the absolute URL
+   */
+  private absoluteURL(url: string): string {
+    return this.client.getUri({ url });
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy.
+   * All client operations go through here, and each attempt waits for the
+   * scheduler so retries don't hold a slot while backing off. Aborting the
+   * config's signal stops the request wherever it is: queued, in flight,
+   * authenticating or waiting to retry.
+   *
+   * @param {AxiosRequestConfig} config - the request to send
+   * @returns the response
+   */
+  private async request<T = unknown>(
+    config: AxiosRequestConfig,
+  ): Promise<AxiosResponse<T>> {
+    const method = config.method ?? "get";
+    const signal = config.signal as AbortSignal | undefined;
+    if (this.sessionStore) {
+      await (this.sessionLoaded ??= this.loadSession());
+    }
+    for (let attempt = 1; ; attempt++) {
+      let response: AxiosResponse<T>;
+      try {
+        response = await this.scheduler.schedule(
+          config.url!,
+          () => this.client.request<T>({ ...config, attempt } as AxiosRequestConfig),
+          signal,
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          throw toAbortError(signal, config);
         }
-      } else if (
-        response.status === 401 &&
-        wwwAuthenticate?.includes("jauth realm")
-      ) {
-        const token_uri = wwwAuthenticate.match(/token_uri="([^"]+)"/)?.[1];
-        if (!token_uri) {
-          return Promise.reject(
-            new Error("No token_uri found in jauth challenge"),
-          );
+        const delay = this.retryPolicy?.shouldRetry(attempt, method, error)
+          ? this.retryPolicy.delay(attempt, error)
+          : null;
+        if (delay === null) {
+          throw toOSLCError(error, config);
         }
         try {
-          // Refresh the token using the provided token_uri
-          const tokenResponse = await this.client.post(
-            token_uri,
-            new URLSearchParams({
-              username: this.userid,
-              password: this.password,
-            }).toString(),
-            {
-              headers: {
-                "Content-Type": "application/x-www-form-urlencoded",
-                Accept: "text/plain",
-              },
-            },
-          );
-          // retry the original request with the new token
-          const newToken = tokenResponse.data; // Refresh token
-          originalRequest.headers["Authorization"] = `Bearer ${newToken}`;
-          return await this.client.request(originalRequest); // Retry the request
-        } catch (error: unknown) {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error(
-            "Error during jauth realm authentication:",
-            message,
-          );
-          return Promise.reject(error);
+          await sleep(delay, signal);
+        } catch {
+          throw toAbortError(signal!, config);
         }
-      } else if (response.status === 401) {
-        // Retry with basic authentication for e.g., Jazz Authorization Server
-        const requestWithAuth = originalRequest as InternalAxiosRequestConfig & {
-          auth?: { username: string; password: string };
-        };
-        requestWithAuth.auth = {
-          username: this.userid,
-          password: this.password,
-        };
-        return await this.client.request(requestWithAuth);
-      } else {
-        // No authentication challenge, proceed with the response
-        return response;
+        continue;
       }
-    });
+      // A challenge left after every strategy had its turn means the credentials were rejected
+      if (
+        response.status === 401 ||
+        this.authStrategies.some((strategy) => strategy.detectChallenge(response))
+      ) {
+        const error = OSLCError.fromResponse(response);
+        throw new AuthenticationError(error.message, error);
+      }
+      return response;
+    }
+  }
+
+  /**
+   * The Configuration-Context header sent with every request, if any
+   */
+  get configurationContext(): string | undefined {
+    return this.configuration_context ?? undefined;
+  }
+
+  /**
+   * The authentication method that last answered a challenge, if any
+   */
+  get authMethod(): string | undefined {
+    return this.currentAuthMethod;
   }
 
   /**
-   * Set the OSLCClient to use a given service provider of the given domain
+   * Export the session, i.e., the cookie jar (with JSESSIONID in Node.js),
+   * the authentication strategies' tokens and the negotiated authentication
+   * method, so a later client can continue without logging in again.
+   * The result is JSON-serializable and contains credentials, store it safely.
+   *
+   * @returns the session data, valid for the sessionMaxAge option
+   */
+  async exportSession(): Promise<SessionData> {
+    const auth: Record<string, unknown> = {};
+    for (const strategy of this.authStrategies) {
+      const state = strategy.exportState?.();
+      if (state !== undefined) {
+        auth[strategy.method] = state;
+      }
+    }
+    const createdAt = Date.now();
+    return {
+      createdAt,
+      expiresAt: createdAt + this.sessionMaxAge,
+      authMethod: this.currentAuthMethod,
+      cookies: await (await this.transport.cookieJar?.())?.serialize(),
+      auth,
+    };
+  }
+
+  /**
+   * Restore a session from exportSession(), replacing the current cookies
+   * and authentication state. Expired sessions are ignored.
+   *
+   * @param {SessionData|string} session - the session data or its JSON
+   * @returns true if the session was restored, false if it had expired
+   */
+  async restoreSession(session: SessionData | string): Promise<boolean> {
+    const data: SessionData =
+      typeof session === "string" ? JSON.parse(session) : session;
+    if (!data?.expiresAt || Date.now() >= data.expiresAt) {
+      return false;
+    }
+    const jar = await this.transport.cookieJar?.();
+    if (jar && data.cookies) {
+      const { CookieJar } = await import("tough-cookie");
+      const restored = await CookieJar.deserialize(data.cookies);
+      await jar.removeAllCookies();
+      for (const cookie of await restored.store.getAllCookies()) {
+        await jar.store.putCookie(cookie);
+      }
+    }
+    for (const strategy of this.authStrategies) {
+      if (strategy.method in (data.auth ?? {})) {
+        strategy.restoreState?.(data.auth[strategy.method]);
+      }
+    }
+    this.currentAuthMethod = data.authMethod;
+    return true;
+  }
+
+  private async loadSession(): Promise<void> {
+    try {
+      const session = await this.sessionStore!.load();
+      if (session && !(await this.restoreSession(session))) {
+        this.logger.debug("Saved session has expired");
+      }
+    } catch (error) {
+      this.logger.warn("Could not restore the saved session:", error);
+    }
+  }
+
+  private async saveSession(): Promise<void> {
+    if (!this.sessionStore) return;
+    try {
+      await this.sessionStore.save(await this.exportSession());
+    } catch (error) {
+      this.logger.warn("Could not save the session:", error);
+    }
+  }
+
+  /**
+   * Bind a service provider of the given domain, and make it the default for
+   * operations that don't select a provider. Providers bound earlier, of this
+   * or other domains and servers, remain available through ProviderOptions.
+   * The provider is looked for in the domain's catalog, then in its nested
+   * catalogs. A title matching exactly in any of them wins over one matching
+   * only when ignoring case.
    *
    * @param {string} server_url - The base server URL
-   * @param {string} serviceProviderName - The name of the service provider
-   * @param {string} domain - The OSLC domain (CM, RM, or QM)
+   * @param {ServiceProviderSelector} serviceProviderName - The title of the service provider,
+   *   which matches exactly, ignoring case, or as its identifier; a RegExp; or title and identifier criteria
+   * @param {string} domain - The OSLC domain: CM, RM, QM, AM, AUTO, CONFIG, or
+   *   the namespace URI of another domain listed in the rootservices jd:oslcCatalogs
+   * @param {RequestOptions} options - Cancellation signal and timeout for the whole discovery
+   * @returns the bound service provider
    */
   async use(
     server_url: string,
-    serviceProviderName: string,
+    serviceProviderName: ServiceProviderSelector,
     domain: string = "CM",
-  ): Promise<void> {
+    options: RequestOptions = {},
+  ): Promise<ServiceProvider> {
+    const signal = callSignal(options);
+    const spcURL = await this.catalogURL(server_url, domain, signal);
+
+    // Lookup the serviceProviderName in the ServiceProviderCatalog and its nested catalogs
+    let found: ServiceProviderInfo | undefined;
+    const providers: ServiceProviderInfo[] = [];
+    for await (const catalog of this.catalogs(spcURL, signal)) {
+      const listed = catalog.listServiceProviders();
+      providers.push(...listed);
+      // A title differing in case may match exactly in a nested catalog, so only stop at an exact match
+      found =
+        typeof serviceProviderName === "string"
+          ? listed.find((provider) => provider.title === serviceProviderName)
+          : ServiceProviderCatalog.match(listed, serviceProviderName);
+      if (found) break;
+    }
+    found ??= ServiceProviderCatalog.match(providers, serviceProviderName);
+    if (!found) {
+      const description =
+        typeof serviceProviderName === "string" ||
+        serviceProviderName instanceof RegExp
+          ? String(serviceProviderName)
+          : JSON.stringify(serviceProviderName);
+      throw new NotFoundError(
+        `${description} not found in service catalog`,
+        { url: spcURL },
+      );
+    }
+    const resource = await this.getDiscoveryResource(found.uri, signal);
+    this.sp = new ServiceProvider(
+      resource.getURI(),
+      resource.store,
+      resource.etag,
+    );
+    const key = domainKey(domain);
+    if (!this.providers.has(key)) {
+      this.providers.set(key, new Map());
+    }
+    // Bound under the name it was asked for, or else under its title
+    this.providers.get(key)!.set(
+      typeof serviceProviderName === "string"
+        ? serviceProviderName
+        : (found.title ?? found.uri),
+      this.sp,
+    );
+    return this.sp;
+  }
+
+  /**
+   * List the service providers of a domain, in its catalog and all the
+   * catalogs nested in it, for instance to let users pick a project area
+   *
+   * @param {string} server_url - The base server URL
+   * @param {string} domain - The OSLC domain, as for use()
+   * @param {RequestOptions} options - Cancellation signal and timeout for the whole listing
+   * @returns the titles, URIs, identifiers and domains of the service providers
+   */
+  async listServiceProviders(
+    server_url: string,
+    domain: string = "CM",
+    options: RequestOptions = {},
+  ): Promise<ServiceProviderInfo[]> {
+    const signal = callSignal(options);
+    const spcURL = await this.catalogURL(server_url, domain, signal);
+    const providers: ServiceProviderInfo[] = [];
+    for await (const catalog of this.catalogs(spcURL, signal)) {
+      providers.push(...catalog.listServiceProviders());
+    }
+    return providers;
+  }
+
+  /**
+   * Describe a server from its rootservices document: the application title
+   * and version, its service provider catalogs and their domains, its OAuth
+   * endpoints and user services. No service provider is bound.
+   *
+   * @param {string} server_url - The base server URL, e.g. https://host:9443/ccm
+   * @param {RequestOptions} options - Cancellation signal and timeout
+   * @returns everything the rootservices document advertises
+   */
+  async discover(
+    server_url: string,
+    options: RequestOptions = {},
+  ): Promise<ServerDescription> {
+    server_url = this.absoluteURL(server_url);
+    const base_url = server_url.endsWith("/")
+      ? server_url.slice(0, -1)
+      : server_url;
+    const rootservices = await this.fetchRootServices(
+      base_url,
+      callSignal(options),
+    );
+    return rootservices.describe();
+  }
+
+  /**
+   * Find the ServiceProviderCatalog URL of a domain in the server's rootservices
+   */
+  private async catalogURL(
+    server_url: string,
+    domain: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    server_url = this.absoluteURL(server_url);
     this.base_url = server_url?.endsWith("/")
       ? server_url.slice(0, -1)
       : server_url;
 
-    // Read the server's rootservices document
-    let resource: OSLCResource;
-    // Fetch the rootservices document, this is an unprotected resource
-    try {
-      resource = await this.getResource(`${this.base_url}/rootservices`) as OSLCResource;
-      this.rootservices = new RootServices(
-        resource.getURI(),
-        resource.store,
-        resource.etag,
-      );
-    } catch (error) {
-      console.error("Error fetching rootservices:", error);
-      throw new Error("Failed to fetch rootservices document");
+    // Read the server's rootservices document, once per server
+    if (this.rootservices?.getURI() !== `${this.base_url}/rootservices`) {
+      this.rootservices = await this.fetchRootServices(this.base_url, signal);
     }
 
     // Get ServiceProviderCatalog URL from the rootservices resource
-    const spcURL = this.rootservices.serviceProviderCatalog(
-      serviceProviders[domain],
-    );
+    const wellKnown = oslcDomains[domainKey(domain)];
+    const spcURL =
+      (wellKnown &&
+        this.rootservices.serviceProviderCatalog(wellKnown.serviceProviders)) ??
+      this.rootservices.catalogForDomain(wellKnown?.namespace ?? domain);
     if (!spcURL) {
-      throw new Error(`No ServiceProviderCatalog for ${domain} services`);
+      throw new NotFoundError(`No ServiceProviderCatalog for ${domain} services`, {
+        url: this.rootservices.getURI(),
+      });
+    }
+    return spcURL;
+  }
+
+  /**
+   * Fetch a ServiceProviderCatalog, then the catalogs nested in it that it
+   * only links to, each once. The first catalog becomes this.spc.
+   */
+  private async *catalogs(
+    spcURL: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ServiceProviderCatalog> {
+    const pending = [spcURL];
+    const visited = new Set<string>();
+    for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+      if (visited.has(url)) continue;
+      visited.add(url);
+      let catalog: ServiceProviderCatalog;
+      try {
+        const resource = await this.getDiscoveryResource(url, signal);
+        catalog = new ServiceProviderCatalog(
+          resource.getURI(),
+          resource.store,
+          resource.etag,
+        );
+      } catch (error) {
+        this.logger.error("Error fetching ServiceProviderCatalog:", error);
+        throw error;
+      }
+      if (url === spcURL) {
+        this.spc = catalog;
+      }
+      yield catalog;
+      pending.push(...catalog.nestedCatalogs());
     }
+  }
+
+  /**
+   * Get a discovery document: rootservices, a catalog, a service provider or
+   * a shape. It comes from the discovery cache while it is fresh, and is
+   * revalidated with its ETag once it is not.
+   */
+  private async getDiscoveryResource(
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<OSLCResource> {
+    url = this.absoluteURL(url);
+    if (!this.discoveryCache) {
+      return await this.getResource(url, undefined, undefined, {
+        signal,
+      }) as OSLCResource;
+    }
+    // Users see different projects, and configurations different versions
+    const key = [this.userid, this.configuration_context ?? "", url].join(" ");
+    let cached: CachedDocument | undefined;
+    try {
+      cached = await this.discoveryCache.get(key);
+    } catch (error) {
+      this.logger.warn("Could not read the discovery cache:", error);
+    }
+    if (cached && Date.now() - cached.fetchedAt < this.discoveryCacheTTL) {
+      return this.parseCachedDocument(cached);
+    }
+
+    const headers: Record<string, string> = {
+      Accept: "application/rdf+xml",
+      "OSLC-Core-Version": "2.0",
+    };
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    }
+    const response = await this.request<string>({ method: "get", url, headers, signal });
+    const document: CachedDocument =
+      response.status === 304 && cached
+        ? { ...cached, fetchedAt: Date.now() }
+        : {
+            url,
+            etag: response.headers.etag,
+            contentType: response.headers["content-type"] ?? "application/rdf+xml",
+            body: response.data,
+            fetchedAt: Date.now(),
+          };
+    try {
+      await this.discoveryCache.set(key, document);
+    } catch (error) {
+      this.logger.warn("Could not update the discovery cache:", error);
+    }
+    return this.parseCachedDocument(document);
+  }
+
+  private parseCachedDocument(document: CachedDocument): OSLCResource {
+    const graph = $rdf.graph();
+    this.parseRDF(document.body, graph, document.url, document.contentType);
+    return new OSLCResource(document.url, graph, document.etag);
+  }
+
+  /**
+   * Forget the discovered rootservices, catalogs, service providers and
+   * shapes, so they are fetched again. Bound service providers stay bound.
+   */
+  async clearDiscoveryCache(): Promise<void> {
+    this.rootservices = null;
+    this.shapeDocuments.clear();
+    await this.discoveryCache?.clear();
+  }
+
+  private async fetchRootServices(
+    base_url: string,
+    signal?: AbortSignal,
+  ): Promise<RootServices> {
+    // Fetch the rootservices document, this is an unprotected resource
     try {
-      resource = await this.getResource(spcURL) as OSLCResource;
-      this.spc = new ServiceProviderCatalog(
-        resource.getURI(),
-        resource.store,
-        resource.etag,
+      const resource = await this.getDiscoveryResource(
+        `${base_url}/rootservices`,
+        signal,
       );
+      return new RootServices(resource.getURI(), resource.store, resource.etag);
     } catch (error) {
-      console.error("Error fetching ServiceProviderCatalog:", error);
-      throw error;
+      this.logger.error("Error fetching rootservices:", error);
+      if (error instanceof OSLCError) {
+        throw error;
+      }
+      throw new OSLCError("Failed to fetch rootservices document", {
+        url: `${base_url}/rootservices`,
+        cause: error,
+      });
     }
+  }
 
-    // Lookup the serviceProviderName in the ServiceProviderCatalog
-    const spURL = this.spc.serviceProvider(serviceProviderName);
-    if (!spURL) {
-      throw new Error(`${serviceProviderName} not found in service catalog`);
+  /**
+   * Get a service provider bound with use()
+   *
+   * @param {ProviderSelector} selector - the provider, its domain, or its domain
+   *   and title, defaults to the provider bound by the latest use()
+   * @returns the service provider
+   */
+  getServiceProvider(selector?: ProviderSelector): ServiceProvider {
+    if (selector instanceof ServiceProvider) {
+      return selector;
     }
-    resource = await this.getResource(spURL) as OSLCResource;
-    this.sp = new ServiceProvider(
-      resource.getURI(),
-      resource.store,
-      resource.etag,
+    if (selector === undefined) {
+      if (!this.sp) {
+        throw new Error("ServiceProvider not initialized. Call use() first.");
+      }
+      return this.sp;
+    }
+    const { domain, title } =
+      typeof selector === "string" ? { domain: selector, title: undefined } : selector;
+    const bound = this.providers.get(domainKey(domain));
+    if (title !== undefined) {
+      const provider = bound?.get(title);
+      if (!provider) {
+        throw new Error(`No ${domain} service provider ${title}. Call use() first.`);
+      }
+      return provider;
+    }
+    if (!bound?.size) {
+      throw new Error(`No ${domain} service provider. Call use() first.`);
+    }
+    if (bound.size > 1) {
+      throw new Error(
+        `Several ${domain} service providers are bound, select one of ${[...bound.keys()].join(", ")}`,
+      );
+    }
+    return bound.values().next().value!;
+  }
+
+  /**
+   * Authorize the configured OAuth 1.0a consumer with a Jazz server. This reads
+   * the OAuth endpoints from the server's rootservices and runs the request
+   * token, user authorization and access token steps.
+   *
+   * @param {string} server_url - The base server URL
+   * @param {RequestOptions} options - Cancellation signal and timeout for the
+   *   rootservices and token requests
+   * @returns the access token, which can be stored and passed to later clients
+   */
+  async authorizeOAuth1(
+    server_url: string,
+    options: RequestOptions = {},
+  ): Promise<OAuth1Token> {
+    server_url = this.absoluteURL(server_url);
+    const strategy = this.authStrategies.find(
+      (candidate): candidate is OAuth1AuthStrategy =>
+        candidate instanceof OAuth1AuthStrategy,
+    );
+    if (!strategy) {
+      throw new Error("No OAuth1AuthStrategy configured for this client");
+    }
+    const base_url = server_url?.endsWith("/")
+      ? server_url.slice(0, -1)
+      : server_url;
+    const signal = callSignal(options);
+    const resource = await this.getResource(
+      `${base_url}/rootservices`,
+      undefined,
+      undefined,
+      { signal },
+    ) as OSLCResource;
+    strategy.useRootServices(
+      new RootServices(resource.getURI(), resource.store, resource.etag),
     );
+    return strategy.authorize(this.authContext, signal);
   }
 
   /**
@@ -287,27 +1067,35 @@ export default class OSLCClient {
    * @param {string} url - The URL of the resource
    * @param {string} oslc_version - OSLC version to use, defaults to 2.0
    * @param {string} accept - The Accept header value, defaults to 'application/rdf+xml'
+   * @param {RequestOptions} options - Cancellation signal and timeout
    * @returns an OSLCResource object containing the resource data or XML/feed
    */
   async getResource(
     url: string,
     oslc_version: string = "2.0",
     accept: string = "application/rdf+xml",
+    options: RequestOptions = {},
   ): Promise<
     | OSLCResource
     | { etag?: string; xml: Document }
     | { etag?: string; feed: AtomFeed }
   > {
+    url = this.absoluteURL(url);
     const headers = {
       Accept: accept,
       "OSLC-Core-Version": oslc_version,
     };
 
-    let response: AxiosResponse;
+    let response: AxiosResponse<string>;
     try {
-      response = await this.client.get(url, { headers });
+      response = await this.request<string>({
+        method: "get",
+        url,
+        headers,
+        signal: callSignal(options),
+      });
     } catch (error) {
-      console.error("Error fetching resource:", error);
+      this.logger.error("Error fetching resource:", error);
       throw error;
     }
     const etag = response.headers.etag;
@@ -318,6 +1106,7 @@ export default class OSLCClient {
       contentType.includes("text/xml") ||
       contentType.includes("application/xml")
     ) {
+      const DOMParser = await loadDOMParser();
       return { etag, xml: new DOMParser().parseFromString(response.data, contentType) };
     } else if (contentType.includes("application/atom+xml")) {
       return { etag, feed: response.data };
@@ -325,11 +1114,7 @@ export default class OSLCClient {
       // assume the content-type is some RDF representation
       // Create a new graph for this resource
       const graph = $rdf.graph();
-      try {
-        $rdf.parse(response.data, graph, url, contentType);
-      } catch (err) {
-        console.error(err);
-      }
+      this.parseRDF(response.data, graph, url, contentType);
       return new OSLCResource(url, graph, etag);
     }
   }
@@ -340,32 +1125,62 @@ export default class OSLCClient {
    * @param {string} url - The URL of the resource
    * @param {string} oslc_version - OSLC version to use, defaults to 2.0
    * @param {string} accept - The Accept header value, defaults to 'application/x-oslc-compact+xml'
+   * @param {RequestOptions} options - Cancellation signal and timeout
    * @returns a Compact object containing the resource data
    */
   async getCompactResource(
     url: string,
     oslc_version: string = "2.0",
     accept: string = "application/x-oslc-compact+xml",
+    options: RequestOptions = {},
   ): Promise<Compact> {
+    url = this.absoluteURL(url);
     const headers = {
       Accept: accept,
       "OSLC-Core-Version": oslc_version,
     };
 
-    let response: AxiosResponse;
+    let response: AxiosResponse<string>;
     try {
-      response = await this.client.get(url, { headers });
+      response = await this.request<string>({
+        method: "get",
+        url,
+        headers,
+        signal: callSignal(options),
+      });
     } catch (error) {
-      console.error("Error fetching Compact resource:", error);
+      // Expected from servers without Compact support, callers fall back to the resource
+      if (isCompactUnsupported(error)) {
+        this.logger.debug("No Compact resource:", error);
+      } else {
+        this.logger.error("Error fetching Compact resource:", error);
+      }
       throw error;
     }
     const etag = response.headers.etag;
+    const contentType: string = response.headers["content-type"] ?? "";
 
+    // Servers without Compact support may answer with an HTML page instead of a 406
+    if (!/x-oslc-compact\+xml|rdf\+xml/.test(contentType)) {
+      throw new OSLCError(
+        `GET ${url} did not return an OSLC Compact resource (${contentType || "no content type"})`,
+        { status: response.status, url, method: "GET", body: response.data },
+      );
+    }
     // Create a new graph for this resource
     const graph = $rdf.graph();
     // contentType is application/x-oslc-compact+xml, but that is RDF/XML specific to OSLC Compact
-    $rdf.parse(response.data, graph, url, "application/rdf+xml");
-    return new Compact(url, graph);
+    try {
+      $rdf.parse(response.data, graph, url, "application/rdf+xml");
+    } catch (error) {
+      throw new OSLCError(`GET ${url} returned an invalid OSLC Compact resource`, {
+        status: response.status,
+        url,
+        method: "GET",
+        cause: error,
+      });
+    }
+    return new Compact(url, graph, etag);
   }
 
   /**
@@ -374,17 +1189,21 @@ export default class OSLCClient {
    * @param {OSLCResource} resource - The resource to update
    * @param {string} eTag - Optional ETag for optimistic concurrency control
    * @param {string} oslc_version - OSLC version to use, defaults to 2.0
+   * @param {WriteOptions} options - Shape validation, cancellation signal and timeout
    * @returns the updated resource
    */
   async putResource(
     resource: OSLCResource,
     eTag: string | null = null,
     oslc_version: string = "2.0",
+    options: WriteOptions = {},
   ): Promise<OSLCResource> {
     const graph = resource.store;
     if (!graph) {
       throw new Error("Resource has no data to update");
     }
+    const signal = callSignal(options);
+    await this.checkShape(resource, "update", undefined, { ...options, signal });
     const url = resource.getURI();
     const headers: Record<string, string> = {
       "OSLC-Core-Version": oslc_version,
@@ -395,12 +1214,16 @@ export default class OSLCClient {
       headers["If-Match"] = eTag;
     }
     const body = graph.serialize(null, "application/rdf+xml", undefined);
-    const response = await this.client.put(url, body, { headers });
+    const response = await this.request({
+      method: "put",
+      url,
+      data: body,
+      headers,
+      signal,
+    });
 
     if (response.status !== 200 && response.status !== 201) {
-      throw new Error(
-        `Failed to update resource ${url}. Status: ${response.status}\n${response.data}`,
-      );
+      throw OSLCError.fromResponse(response);
     }
     return resource;
   }
@@ -408,27 +1231,25 @@ export default class OSLCClient {
   /**
    * Create a new OSLC resource
    *
-   * @param {string|NamedNode} resourceType - The OSLC resource type
+   * @param {string|NamedNode|CreationFactory} resourceType - The OSLC resource type, or the creation factory to use
    * @param {OSLCResource} resource - The resource to create
    * @param {string} oslc_version - OSLC version to use, defaults to 2.0
+   * @param {WriteOptions} options - The service provider to use, shape validation, cancellation signal and timeout
    * @returns the created resource with its new URI
    */
   async createResource(
-    resourceType: string | NamedNode,
+    resourceType: string | NamedNode | CreationFactory,
     resource: OSLCResource,
     oslc_version: string = "2.0",
+    options: WriteOptions = {},
   ): Promise<OSLCResource> {
     const graph = resource.store;
     if (!graph) {
       throw new Error("Resource has no data to create");
     }
-    if (!this.sp) {
-      throw new Error("ServiceProvider not initialized. Call use() first.");
-    }
-    const creationFactory = this.sp.getCreationFactory(resourceType);
-    if (!creationFactory) {
-      throw new Error(`No creation factory found for ${resourceType}`);
-    }
+    const signal = callSignal(options);
+    const creationFactory = await this.getCreationFactory(resourceType, options);
+    await this.checkShape(resource, "create", resourceType, { ...options, signal });
     const headers = {
       "Content-Type": "application/rdf+xml; charset=utf-8",
       Accept: "application/rdf+xml; charset=utf-8",
@@ -438,30 +1259,105 @@ export default class OSLCClient {
     const body = graph.serialize(null, "application/rdf+xml", undefined);
     let response: AxiosResponse;
     try {
-      response = await this.client.post(creationFactory, body, { headers });
+      response = await this.request({
+        method: "post",
+        url: creationFactory,
+        data: body,
+        headers,
+        signal,
+      });
       if (response.status !== 200 && response.status !== 201) {
-        throw new Error(
-          `Failed to create resource. Status: ${response.status}\n${response.data}`,
-        );
+        throw OSLCError.fromResponse(response);
       }
     } catch (error) {
-      console.error("Error creating resource:", error);
+      this.logger.error("Error creating resource:", error);
       throw error;
     }
     const location = response.headers.location;
-    const createdResource = await this.getResource(location);
+    const createdResource = await this.getResource(
+      location,
+      undefined,
+      undefined,
+      { signal },
+    );
     return createdResource as OSLCResource;
   }
 
+  /**
+   * Check a resource about to be sent against its ResourceShape, if the
+   * options ask for it. An update is checked against the server's copy of
+   * the resource when the shape has read-only properties.
+   */
+  private async checkShape(
+    resource: OSLCResource,
+    operation: "create" | "update",
+    resourceType: string | NamedNode | CreationFactory | undefined,
+    options: WriteOptions,
+  ): Promise<void> {
+    if (!options.validate) return;
+    const shape =
+      options.validate instanceof ResourceShape
+        ? options.validate
+        : await this.shapeOf(resource, resourceType, options);
+    const original =
+      operation === "update" && shape.properties.some((property) => property.readOnly)
+        ? await this.getResource(resource.getURI(), undefined, undefined, {
+            signal: options.signal,
+          })
+        : undefined;
+    const violations = validateResource(resource, shape, {
+      operation,
+      original: original instanceof OSLCResource ? original : undefined,
+    });
+    if (violations.length > 0) {
+      const messages = violations.map((violation) => violation.message);
+      throw new ValidationError(
+        `Resource does not match ${shape.getTitle() ?? shape.queryURI}: ${messages.join(", ")}`,
+        violations,
+        { url: shape.queryURI },
+      );
+    }
+  }
+
+  /**
+   * Find the ResourceShape of a resource: its oslc:instanceShape, or else
+   * the shape of the creation factory or of its rdf:type
+   */
+  private async shapeOf(
+    resource: OSLCResource,
+    resourceType: string | NamedNode | CreationFactory | undefined,
+    options: ProviderOptions,
+  ): Promise<ResourceShape> {
+    const instanceShape = resource.store.any(resource.uri, oslc("instanceShape"));
+    if (instanceShape) {
+      return this.getResourceShape(instanceShape.value, options);
+    }
+    if (resourceType) {
+      return this.getResourceShapeFor(resourceType, options);
+    }
+    const sp = this.getServiceProvider(options.provider);
+    for (const type of resource.store.each(resource.uri, rdf("type"))) {
+      const shapeURL = sp.getResourceShape(type.value);
+      if (shapeURL) {
+        return this.getResourceShape(shapeURL, options);
+      }
+    }
+    throw new NotFoundError(`No resource shape found for ${resource.getURI()}`, {
+      url: sp.getURI(),
+    });
+  }
+
   /**
    * Delete an OSLC resource
    *
    * @param {OSLCResource} resource - The resource to delete
    * @param {string} oslc_version - OSLC version to use, defaults to 2.0
+   * @param {RequestOptions} options - Cancellation signal and timeout
    */
   async deleteResource(
     resource: OSLCResource,
     oslc_version: string = "2.0",
+    options: RequestOptions = {},
   ): Promise<void> {
     const graph = resource.store;
     if (!graph) {
@@ -474,10 +1370,11 @@ export default class OSLCClient {
       "X-Jazz-CSRF-Prevent": "1",
     };
 
-    // In Node.js, try to get JSESSIONID from cookie jar
-    if (isNodeEnvironment && this.jar) {
+    // Outside browsers, try to get JSESSIONID from the transport's cookie jar
+    const jar = await this.transport.cookieJar?.();
+    if (jar) {
       try {
-        const cookies = this.jar.getCookiesSync(url);
+        const cookies = await jar.getCookies(url);
         const sessionCookie = cookies.find(
           (cookie: Cookie) => cookie.key === "JSESSIONID",
         );
@@ -487,7 +1384,7 @@ export default class OSLCClient {
       } catch (error: unknown) {
         // If cookie retrieval fails, continue with default value
         const message = error instanceof Error ? error.message : String(error);
-        console.debug(
+        this.logger.debug(
           "Could not retrieve JSESSIONID from cookie jar:",
           message,
         );
@@ -495,14 +1392,17 @@ export default class OSLCClient {
     }
 
     try {
-      const response = await this.client.delete(url, { headers });
+      const response = await this.request({
+        method: "delete",
+        url,
+        headers,
+        signal: callSignal(options),
+      });
       if (response.status !== 200 && response.status !== 204) {
-        throw new Error(
-          `Failed to delete resource. Status: ${response.status}\n${response.data}`,
-        );
+        throw OSLCError.fromResponse(response);
       }
     } catch (error) {
-      console.error("Error deleting resource:", error);
+      this.logger.error("Error deleting resource:", error);
       throw error;
     }
   }
@@ -510,118 +1410,536 @@ export default class OSLCClient {
   /**
    * Query for OSLC resources and return them as OSLCResource objects
    *
-   * @param {string|NamedNode} resourceType - The OSLC resource type to query
-   * @param {QueryParams} query - The OSLC query parameters
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to query, or the query capability to use
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {QueryOptions} options - The member predicate, the service provider to use, cancellation signal and timeout
    * @returns an array of OSLCResource objects
    */
   async queryResources(
-    resourceType: string | NamedNode,
-    query: QueryParams,
+    resourceType: string | NamedNode | QueryCapability,
+    query: QueryParams | QueryBuilder,
+    options: QueryOptions = {},
   ): Promise<OSLCResource[]> {
-    const kb = await this.query(resourceType, query);
-    // create an OSLCResource for each result member
-    // TODO: getting the members must use the discovered member predicate, rdfs:member is the default
-    const resources: OSLCResource[] = [];
-    const members = kb.statementsMatching(null, rdfs("member"), null);
-    for (const member of members) {
-      const memberStatements = kb.statementsMatching(
-        member.object as Quad_Subject,
-        undefined,
-        undefined,
-      );
-      const memberKb = $rdf.graph();
-      memberKb.add(memberStatements);
-      resources.push(new OSLCResource(member.object.value, memberKb));
-    }
-    return resources;
+    const queryBase = await this.getQueryBase(resourceType, options);
+    const kb = await this.queryWithBase(queryBase, query, options);
+    const predicate = await this.memberPredicate(resourceType, options);
+    return this.queryMembers(kb, [this.absoluteURL(queryBase)], predicate);
   }
 
   /**
    * Query for OSLC resources and return the RDF graph
    *
-   * @param {string|NamedNode} resourceType - The OSLC resource type to query
-   * @param {QueryParams} query - The OSLC query parameters
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to query, or the query capability to use
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {ProviderOptions} options - The service provider to use, cancellation signal and timeout
    * @returns an RDF IndexedFormula containing all query results
    */
   async query(
-    resourceType: string | NamedNode,
-    query: QueryParams,
+    resourceType: string | NamedNode | QueryCapability,
+    query: QueryParams | QueryBuilder,
+    options: ProviderOptions = {},
   ): Promise<IndexedFormula> {
-    if (!this.sp) {
-      throw new Error("ServiceProvider not initialized. Call use() first.");
-    }
-    const queryBase = this.sp.getQueryBase(resourceType);
-    if (!queryBase) {
-      throw new Error(`No query capability found for ${resourceType}`);
-    }
-    return this.queryWithBase(queryBase, query);
+    const queryBase = await this.getQueryBase(resourceType, options);
+    return this.queryWithBase(queryBase, query, options);
   }
 
   /**
    * Query using a specific query base URL
    *
    * @param {string} queryBase - The query base URL
-   * @param {QueryParams} query - The OSLC query parameters
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {RequestOptions} options - Cancellation signal and timeout, covering all result pages
    * @returns an RDF IndexedFormula containing all query results
    */
   async queryWithBase(
     queryBase: string,
-    query: QueryParams,
+    query: QueryParams | QueryBuilder,
+    options: RequestOptions = {},
   ): Promise<IndexedFormula> {
-    const headers = {
-      "OSLC-Core-Version": "2.0",
-      Accept: "application/rdf+xml",
-      "X-Jazz-CSRF-Prevent": "1",
+    const signal = callSignal(options);
+    const store = $rdf.graph();
+    // Servers may page the results anyway, so read every page into the one graph
+    let url: string | undefined = this.queryURL(
+      this.absoluteURL(queryBase),
+      query,
+      { "oslc.paging": "false" },
+    );
+    const visited = new Set<string>();
+    while (url && !visited.has(url)) {
+      visited.add(url);
+      const page = await this.fetchQueryPage(url, signal);
+      store.addAll(page.store.statements);
+      url = page.responseInfo?.nextPage;
+    }
+    return store;
+  }
+
+  /**
+   * Query for OSLC resources a page at a time, asking the server to page
+   * the results. Each page is read when the previous one has been used, so
+   * large result sets are never held in memory at once.
+   *
+   *     for await (const page of client.queryPages(type, query, { pageSize: 100 })) {
+   *       save(page.members, page.next);
+   *     }
+   *
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to query, or the query capability to use
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {QueryPageOptions} options - The page size, a page to resume from, how many results to stop after,
+   *   the service provider to use, cancellation signal and a timeout covering all pages
+   * @returns the pages, with their graph, members and where to resume after them
+   */
+  async *queryPages(
+    resourceType: string | NamedNode | QueryCapability,
+    query: QueryParams | QueryBuilder,
+    options: QueryPageOptions = {},
+  ): AsyncGenerator<QueryResult> {
+    const signal = callSignal(options);
+    let url: string | undefined;
+    let queryBase: string | undefined;
+    // Members of the first page returned before, when resuming partway through it
+    let offset = 0;
+    if (typeof options.startPage === "string") {
+      url = this.absoluteURL(options.startPage);
+    } else if (options.startPage) {
+      url = this.absoluteURL(options.startPage.page);
+      offset = options.startPage.offset;
+    } else {
+      const paging: Record<string, string> = { "oslc.paging": "true" };
+      if (options.pageSize !== undefined) {
+        paging["oslc.pageSize"] = String(options.pageSize);
+      }
+      queryBase = this.absoluteURL(
+        await this.getQueryBase(resourceType, options),
+      );
+      url = this.queryURL(queryBase, query, paging);
+    }
+    const predicate = await this.memberPredicate(resourceType, options);
+    let remaining = options.limit ?? Infinity;
+    const visited = new Set<string>();
+    while (url && !visited.has(url)) {
+      visited.add(url);
+      const { store, responseInfo } = await this.fetchQueryPage(url, signal);
+      // The results are the query base, or the page, with or without its query
+      const containers = [url, url.split("?")[0], queryBase].filter(
+        (container): container is string => container !== undefined,
+      );
+      const all = this.queryMembers(store, containers, predicate);
+      const members = all.slice(offset, offset + remaining);
+      remaining -= members.length;
+      const end = offset + members.length;
+      const { totalCount, nextPage } = responseInfo ?? {};
+      // A limit may end partway through the page, resume after what was returned
+      const next =
+        end < all.length
+          ? { page: url, offset: end }
+          : nextPage
+            ? { page: nextPage, offset: 0 }
+            : undefined;
+      yield { url, store, members, responseInfo, totalCount, nextPage, next };
+      if (remaining <= 0) break;
+      url = nextPage;
+      offset = 0;
+    }
+  }
+
+  /**
+   * Query for OSLC resources one at a time, reading the pages of results
+   * as they are needed, see queryPages()
+   *
+   *     for await (const resource of client.queryIterator(type, query, { limit: 10 })) {
+   *       console.log(resource.getTitle());
+   *     }
+   *
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to query, or the query capability to use
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {QueryPageOptions} options - The page size, a page to resume from, how many results to stop after,
+   *   the service provider to use, cancellation signal and a timeout covering all pages
+   * @returns the member resources
+   */
+  async *queryIterator(
+    resourceType: string | NamedNode | QueryCapability,
+    query: QueryParams | QueryBuilder,
+    options: QueryPageOptions = {},
+  ): AsyncGenerator<OSLCResource> {
+    for await (const page of this.queryPages(resourceType, query, options)) {
+      yield* page.members;
+    }
+  }
+
+  /**
+   * Query for OSLC resources and return them with what the server says
+   * about the results, such as their total count. With a limit, only the
+   * pages needed are read and next tells where to carry on.
+   *
+   *     const first = await client.queryResult(type, query, { pageSize: 50, limit: 50 });
+   *     console.log(`showing ${first.members.length} of ${first.totalCount}`);
+   *     const more = await client.queryResult(type, query, { startPage: first.next, limit: 50 });
+   *
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to query, or the query capability to use
+   * @param {QueryParams|QueryBuilder} query - The OSLC query parameters, or a QueryBuilder
+   * @param {QueryPageOptions} options - The page size, a page to resume from, how many results to stop after,
+   *   the service provider to use, cancellation signal and a timeout covering all pages
+   * @returns the members, their graph, the response info of the first page and the next page to read
+   */
+  async queryResult(
+    resourceType: string | NamedNode | QueryCapability,
+    query: QueryParams | QueryBuilder,
+    options: QueryPageOptions = {},
+  ): Promise<QueryResult> {
+    const pages: QueryResult[] = [];
+    for await (const page of this.queryPages(resourceType, query, options)) {
+      pages.push(page);
+    }
+    const store = $rdf.graph();
+    for (const page of pages) {
+      store.addAll(page.store.statements);
+    }
+    const { url, responseInfo, totalCount } = pages[0];
+    return {
+      url,
+      store,
+      members: pages.flatMap((page) => page.members),
+      responseInfo,
+      totalCount,
+      nextPage: pages[pages.length - 1].nextPage,
+      next: pages[pages.length - 1].next,
+    };
+  }
+
+  /**
+   * Search for OSLC resources by text, with oslc.searchTerms, as for a
+   * search box. The results are ranked by their oslc:score, most relevant
+   * first, unless the query gives its own oslc.orderBy. A server that
+   * ignores oslc.searchTerms returns unscored results, see
+   * SearchResult.ranked.
+   *
+   *     const found = await client.search(oslc_cm('ChangeRequest'), 'login "time out"', {
+   *       where: 'oslc_cm:status="Open"',
+   *     });
+   *     for (const { resource, score } of found.hits) console.log(score, resource.getTitle());
+   *
+   * @param {string|NamedNode|QueryCapability} resourceType - The OSLC resource type to search, or the query capability to use
+   * @param {string|string[]} text - What the user typed, words or "quoted phrases", or the search terms
+   * @param {QueryParams|QueryBuilder} query - Other clauses, such as an oslc.where the results must also match
+   * @param {SearchOptions} options - As for queryResult(), and force to search a capability that doesn't
+   *   advertise full-text search
+   * @returns the members with their scores, and what the server says about the results
+   * @throws {QueryError} if there are no search terms, the query capability doesn't advertise full-text
+   *   search, or the server rejects the search
+   */
+  async search(
+    resourceType: string | NamedNode | QueryCapability,
+    text: string | string[],
+    query: QueryParams | QueryBuilder = {},
+    options: SearchOptions = {},
+  ): Promise<SearchResult> {
+    const terms = typeof text === "string" ? splitSearchText(text) : text;
+    if (terms.length === 0 && !options.startPage) {
+      throw new QueryError("A search needs at least one search term");
+    }
+    if (!options.force && !options.startPage) {
+      const capability =
+        resourceType instanceof QueryCapability
+          ? resourceType
+          : this.getServiceProvider(options.provider).queryCapability(
+              resourceType,
+            );
+      if (capability && !capability.supportsFullTextSearch) {
+        throw new QueryError(
+          `Query capability ${capability.title ?? capability.getURI()} does not advertise full-text search`,
+          { url: capability.queryBase },
+        );
+      }
+    }
+
+    let search: QueryParams | QueryBuilder;
+    let byScore: boolean;
+    if (query instanceof QueryBuilder) {
+      search = new QueryBuilder(query.toAST()).searchTerms(...terms);
+      byScore = !search.toAST().orderBy?.length;
+      if (byScore) {
+        search.orderBy(oslc("score"), "desc");
+      }
+    } else {
+      // The caller's clauses go as they are, they may use prefixes only the server knows
+      byScore = !query.orderBy;
+      search = {
+        ...query,
+        searchTerms: [query.searchTerms, serializeSearchTerms(terms)]
+          .filter(Boolean)
+          .join(","),
+      };
+      if (byScore) {
+        search.orderBy = "-oslc:score";
+        if (!/(^|,)\s*oslc\s*=/.test(query.prefix ?? "")) {
+          search.prefix = [query.prefix, `oslc=<${oslc("").value}>`]
+            .filter(Boolean)
+            .join(",");
+        }
+      }
+    }
+    const result = await this.queryResult(resourceType, search, options);
+
+    const hits: SearchHit[] = result.members.map((resource) => {
+      const score = Number(
+        resource.store.any(sym(resource.getURI()), oslc("score"))?.value,
+      );
+      return { resource, score: Number.isNaN(score) ? undefined : score };
+    });
+    // Pages are ranked one at a time, and not every server sorts by score
+    if (byScore) {
+      hits.sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity));
+    }
+    return {
+      ...result,
+      members: hits.map((hit) => hit.resource),
+      hits,
+      ranked: hits.some((hit) => hit.score !== undefined),
     };
+  }
 
+  /**
+   * The URL of a query, with its clauses and paging parameters
+   */
+  private queryURL(
+    queryBase: string,
+    query: QueryParams | QueryBuilder,
+    paging: Record<string, string>,
+  ): string {
+    if (query instanceof QueryBuilder) {
+      query = query.build();
+    }
     const params = new URLSearchParams();
     if (query?.prefix) params.append("oslc.prefix", query.prefix);
     if (query?.select) params.append("oslc.select", query.select);
     if (query?.where) params.append("oslc.where", query.where);
     if (query?.orderBy) params.append("oslc.orderBy", query.orderBy);
-    params.append("oslc.paging", "false");
+    if (query?.searchTerms) {
+      params.append("oslc.searchTerms", query.searchTerms);
+    }
+    for (const [name, value] of Object.entries(paging)) {
+      params.append(name, value);
+    }
+    return `${queryBase}${queryBase.includes("?") ? "&" : "?"}${params.toString()}`;
+  }
 
-    let url = `${queryBase}?${params.toString()}`;
-    let response = await this.client.get(url, { headers });
+  /**
+   * Read a page of query results into its own graph, with the page's URL as
+   * the base URI
+   */
+  private async fetchQueryPage(
+    url: string,
+    signal?: AbortSignal,
+  ): Promise<Pick<QueryResult, "store" | "responseInfo">> {
+    const headers = {
+      "OSLC-Core-Version": "2.0",
+      Accept: "application/rdf+xml",
+      "X-Jazz-CSRF-Prevent": "1",
+    };
+    let response: AxiosResponse<string>;
+    try {
+      response = await this.request<string>({ method: "get", url, headers, signal });
+    } catch (error) {
+      // A bad request from a query capability means the query itself is invalid
+      if (error instanceof OSLCError && error.status === 400) {
+        throw new QueryError(error.message, error);
+      }
+      throw error;
+    }
     if (response.status !== 200) {
-      throw new Error(
-        `Failed to query resource. Status: ${response.status}\n${response.data}`,
-      );
+      throw new QueryError(`Failed to query ${url}, status ${response.status}`, {
+        status: response.status,
+        url,
+        method: "GET",
+        body: response.data,
+      });
     }
-    const contentType = response.headers["content-type"];
     const store = $rdf.graph();
-    try {
-      $rdf.parse(response.data, store, url, contentType);
-    } catch (err) {
-      console.error(err);
+    this.parseRDF(response.data, store, url, response.headers["content-type"]);
+    return { store, responseInfo: this.responseInfo(store, url) };
+  }
+
+  /**
+   * Read the oslc:ResponseInfo of a page of query results. It is the page
+   * itself, but servers that rewrite the URL may name it differently.
+   */
+  private responseInfo(
+    store: IndexedFormula,
+    url: string,
+  ): ResponseInfo | undefined {
+    const describes = (subject: Quad_Subject) =>
+      store.holds(subject, rdf("type"), oslc("ResponseInfo")) ||
+      store.holds(subject, oslc("totalCount"), undefined) ||
+      store.holds(subject, oslc("nextPage"), undefined);
+    const subject = describes(sym(url))
+      ? sym(url)
+      : ((store.any(undefined, rdf("type"), oslc("ResponseInfo")) ??
+          store.statementsMatching(undefined, oslc("totalCount"))[0]?.subject ??
+          store.statementsMatching(undefined, oslc("nextPage"))[0]
+            ?.subject) as Quad_Subject | undefined);
+    if (!subject) {
+      return undefined;
     }
-    let nextPage = store.any(sym(queryBase), oslc("nextPage"), null)?.value;
-    while (nextPage) {
-      response = await this.client.get(nextPage, { headers });
+    const totalCount = store.any(subject, oslc("totalCount"))?.value;
+    return {
+      uri: subject.value,
+      title: store.any(subject, dcterms("title"))?.value,
+      description: store.any(subject, dcterms("description"))?.value,
+      totalCount: totalCount !== undefined ? Number(totalCount) : undefined,
+      nextPage: store.any(subject, oslc("nextPage"))?.value,
+      warnings: store.each(subject, oslc("message")).map((message) => message.value),
+    };
+  }
+
+  /**
+   * The predicate linking query results to their members: the one given,
+   * or else the oslc:isMemberProperty of the query capability's shape.
+   * Without either, queryMembers() finds it in the response.
+   */
+  private async memberPredicate(
+    resourceType: string | NamedNode | QueryCapability | undefined,
+    options: QueryOptions,
+  ): Promise<NamedNode | undefined> {
+    if (options.memberPredicate) {
+      return typeof options.memberPredicate === "string"
+        ? sym(options.memberPredicate)
+        : options.memberPredicate;
+    }
+    let capability: QueryCapability | undefined;
+    if (resourceType instanceof QueryCapability) {
+      capability = resourceType;
+    } else if (resourceType) {
+      try {
+        capability = this.getServiceProvider(
+          options.provider,
+        ).queryCapability(resourceType);
+      } catch {
+        // Resuming from a startPage needs no service provider
+      }
+    }
+    for (const shapeURL of capability?.resourceShapes ?? []) {
       try {
-        $rdf.parse(response.data, store, url, contentType);
-      } catch (err) {
-        console.error(err);
+        const shape = await this.getResourceShape(shapeURL, options);
+        const member = shape.memberProperty();
+        if (member?.propertyDefinition) {
+          return sym(member.propertyDefinition);
+        }
+      } catch (error) {
+        // The shape only helps, the response may still show the members
+        this.logger.debug(`Could not read query shape ${shapeURL}:`, error);
       }
-      nextPage = store.any(sym(nextPage), oslc("nextPage"), null)?.value;
     }
+    return undefined;
+  }
 
-    return store;
+  /**
+   * Find the predicate a query response links its results to their members
+   * with: rdfs:member, ldp:contains, or else the one linking the results
+   * container to the most resources
+   */
+  private responseMemberPredicate(
+    store: IndexedFormula,
+    containers: string[],
+  ): NamedNode | undefined {
+    for (const predicate of [rdfs("member"), ldp("contains")]) {
+      if (store.holds(undefined, predicate, undefined)) {
+        return predicate;
+      }
+    }
+    const counts = new Map<string, number>();
+    for (const container of new Set(containers)) {
+      for (const statement of store.statementsMatching(sym(container))) {
+        if (
+          statement.object.termType === "Literal" ||
+          statement.predicate.equals(rdf("type")) ||
+          statement.predicate.value.startsWith(oslc("").value)
+        ) {
+          continue;
+        }
+        const predicate = statement.predicate.value;
+        counts.set(predicate, (counts.get(predicate) ?? 0) + 1);
+      }
+    }
+    const [best] = [...counts].sort(([, a], [, b]) => b - a)[0] ?? [];
+    return best !== undefined ? sym(best) : undefined;
+  }
+
+  /**
+   * Get the members of query results, each with its own graph holding its
+   * statements and those of the blank nodes and inlined resources it links
+   * to, such as a creator whose foaf:name was selected
+   *
+   * @param {IndexedFormula} store - the query response
+   * @param {string[]} containers - the URIs the response may give the results as
+   * @param {NamedNode} predicate - the member predicate, else it is found in the response
+   */
+  private queryMembers(
+    store: IndexedFormula,
+    containers: string[],
+    predicate?: NamedNode,
+  ): OSLCResource[] {
+    predicate ??= this.responseMemberPredicate(store, containers);
+    if (!predicate) {
+      return [];
+    }
+    const links = store.statementsMatching(undefined, predicate, undefined);
+    // Members of the results, rather than of collections inside a member
+    const fromContainers = links.filter((link) =>
+      containers.includes(link.subject.value),
+    );
+    const members = new Map<string, Quad_Subject>();
+    for (const link of fromContainers.length ? fromContainers : links) {
+      members.set(link.object.value, link.object as Quad_Subject);
+    }
+
+    const resources: OSLCResource[] = [];
+    for (const member of members.values()) {
+      const memberKb = $rdf.graph();
+      const visited = new Set([member.value]);
+      const pending = [member];
+      for (let node = pending.pop(); node; node = pending.pop()) {
+        for (const statement of store.statementsMatching(node)) {
+          memberKb.add(statement);
+          const object = statement.object;
+          if (
+            (object.termType === "BlankNode" || object.termType === "NamedNode") &&
+            !visited.has(object.value) &&
+            // Other members and the results have graphs of their own
+            !members.has(object.value) &&
+            !containers.includes(object.value) &&
+            store.holds(object as Quad_Subject, undefined, undefined)
+          ) {
+            visited.add(object.value);
+            pending.push(object as Quad_Subject);
+          }
+        }
+      }
+      resources.push(new OSLCResource(member.value, memberKb));
+    }
+    return resources;
   }
 
   /**
    * Get the owner name for a resource URL (with caching)
    *
    * @param {string} url - The URL of the owner resource
+   * @param {RequestOptions} options - Cancellation signal and timeout
    * @returns the owner's name
    */
-  async getOwner(url: string): Promise<string> {
+  async getOwner(url: string, options: RequestOptions = {}): Promise<string> {
+    url = this.absoluteURL(url);
     if (this.ownerMap.has(url)) {
       return this.ownerMap.get(url)!;
     }
 
     const headers = { Accept: "application/rdf+xml" };
-    const response = await this.client.get(url, { headers });
+    const response = await this.request<string>({
+      method: "get",
+      url,
+      headers,
+      signal: callSignal(options),
+    });
 
     if (response.status !== 200) {
       return "Unknown";
@@ -629,11 +1947,7 @@ export default class OSLCClient {
     const contentLocation = response.headers["content-location"] || url;
     const contentType = response.headers["content-type"];
     const store = $rdf.graph();
-    try {
-      $rdf.parse(response.data, store, url, contentType);
-    } catch (err) {
-      console.error(err);
-    }
+    this.parseRDF(response.data, store, url, contentType);
     const name = store.any(
       sym(contentLocation),
       sym("http://xmlns.com/foaf/0.1/name"),
@@ -650,52 +1964,121 @@ export default class OSLCClient {
   /**
    * Get the query base URL for a resource type
    *
-   * @param {string} resourceType - The resource type
+   * @param {string|NamedNode|QueryCapability} resourceType - The resource type, or else the oslc:usage,
+   *   see ServiceProvider.queryCapability(), or a query capability
+   * @param {ProviderOptions} options - The service provider to look in
    * @returns the query base URL
    */
-  async getQueryBase(resourceType: string): Promise<string> {
-    if (!this.sp) {
-      throw new Error("ServiceProvider not initialized. Call use() first.");
+  async getQueryBase(
+    resourceType: string | NamedNode | QueryCapability,
+    options: ProviderOptions = {},
+  ): Promise<string> {
+    if (resourceType instanceof QueryCapability) {
+      if (!resourceType.queryBase) {
+        throw new NotFoundError(
+          `Query capability ${resourceType.title ?? resourceType.getURI()} has no oslc:queryBase`,
+        );
+      }
+      return resourceType.queryBase;
     }
-    const query = `
-            PREFIX oslc: <${oslc('').value}>
-            SELECT ?qb WHERE {
-                ?sp oslc:service ?s .
-                ?s oslc:queryCapability ?qc .
-                ?qc oslc:resourceType <${resourceType}> .
-                ?qc oslc:queryBase ?qb .
-            }`;
-
-    const results = (this.sp.store as any).querySync(query) as SPARQLResults;
-    if (!results?.length) {
-      throw new Error(`No query capability found for ${resourceType}`);
+    const sp = this.getServiceProvider(options.provider);
+    const queryBase = sp.getQueryBase(resourceType);
+    if (!queryBase) {
+      throw new NotFoundError(`No query capability found for ${resourceType}`, {
+        url: sp.getURI(),
+      });
     }
-    return results[0].qb.value;
+    return queryBase;
   }
 
   /**
    * Get the creation factory URL for a resource type
    *
-   * @param {string} resourceType - The resource type
+   * @param {string|NamedNode|CreationFactory} resourceType - The resource type, or else the oslc:usage,
+   *   see ServiceProvider.creationFactory(), or a creation factory
+   * @param {ProviderOptions} options - The service provider to look in
    * @returns the creation factory URL
    */
-  async getCreationFactory(resourceType: string): Promise<string> {
-    if (!this.sp) {
-      throw new Error("ServiceProvider not initialized. Call use() first.");
+  async getCreationFactory(
+    resourceType: string | NamedNode | CreationFactory,
+    options: ProviderOptions = {},
+  ): Promise<string> {
+    if (resourceType instanceof CreationFactory) {
+      if (!resourceType.creation) {
+        throw new NotFoundError(
+          `Creation factory ${resourceType.title ?? resourceType.getURI()} has no oslc:creation`,
+        );
+      }
+      return resourceType.creation;
     }
-    const query = `
-            PREFIX oslc: <${oslc('').value}>
-            SELECT ?cfurl WHERE {
-                ?sp oslc:service ?s .
-                ?s oslc:creationFactory ?cf .
-                ?cf oslc:usage <${resourceType}> .
-                ?cf oslc:creation ?cfurl .
-            }`;
+    const sp = this.getServiceProvider(options.provider);
+    const creationFactory = sp.getCreationFactory(resourceType);
+    if (!creationFactory) {
+      throw new NotFoundError(`No creation factory found for ${resourceType}`, {
+        url: sp.getURI(),
+      });
+    }
+    return creationFactory;
+  }
 
-    const results = await (this.sp.store as any).sparqlQuery(query) as SPARQLResults;
-    if (!results?.length) {
-      throw new Error(`No creation factory found for ${resourceType}`);
+  /**
+   * Get a ResourceShape. Shape documents are read once and kept for the
+   * lifetime of the client.
+   *
+   * @param {string} url - The shape URL, a fragment selects one of the shapes in a document
+   * @param {RequestOptions} options - Cancellation signal and timeout
+   * @returns the resource shape
+   */
+  async getResourceShape(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<ResourceShape> {
+    url = this.absoluteURL(url);
+    const documentURL = url.split("#")[0];
+    let document = this.shapeDocuments.get(documentURL);
+    if (!document) {
+      // Shared by every caller, so one caller aborting doesn't fail the others
+      document = this.getDiscoveryResource(documentURL);
+      this.shapeDocuments.set(documentURL, document);
+      // Don't keep a failure, the next call tries again
+      document.catch(() => this.shapeDocuments.delete(documentURL));
+    }
+    const signal = callSignal(options);
+    const resource = await abortable(document, signal, () =>
+      toAbortError(signal!, { url: documentURL, method: "get" }),
+    );
+    return new ResourceShape(url, resource.store, resource.etag);
+  }
+
+  /**
+   * Get the ResourceShape of a resource type, as advertised by its creation
+   * factory, or else its query capability
+   *
+   * @param {string|NamedNode|CreationFactory|QueryCapability} resourceType - The resource type, or
+   *   else the oslc:usage, as for getCreationFactory(); or the capability whose shape to get
+   * @param {ProviderOptions} options - The service provider to look in, cancellation signal and timeout
+   * @returns the resource shape
+   */
+  async getResourceShapeFor(
+    resourceType: string | NamedNode | CreationFactory | QueryCapability,
+    options: ProviderOptions = {},
+  ): Promise<ResourceShape> {
+    if (resourceType instanceof CreationFactory || resourceType instanceof QueryCapability) {
+      const shapeURL = resourceType.resourceShapes[0];
+      if (!shapeURL) {
+        throw new NotFoundError(
+          `${resourceType.title ?? resourceType.getURI()} has no oslc:resourceShape`,
+        );
+      }
+      return this.getResourceShape(shapeURL, options);
+    }
+    const sp = this.getServiceProvider(options.provider);
+    const shapeURL = sp.getResourceShape(resourceType);
+    if (!shapeURL) {
+      throw new NotFoundError(`No resource shape found for ${resourceType}`, {
+        url: sp.getURI(),
+      });
     }
-    return results[0].cfurl.value;
+    return this.getResourceShape(shapeURL, options);
   }
 }
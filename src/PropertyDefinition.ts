@@ -0,0 +1,98 @@
+/*
+ * A property described by an OSLC ResourceShape
+ */
+
+import type { IndexedFormula } from 'rdflib';
+import type { NamedNode, Quad_Subject } from 'rdflib/lib/tf-types';
+import { dcterms, oslc, rdfs } from './namespaces.js';
+
+// oslc:occurs values a resource must have at least one value for
+const REQUIRED_OCCURS = [oslc('Exactly-one').value, oslc('One-or-many').value];
+
+// oslc:occurs values allowing several values
+const MULTIPLE_OCCURS = [oslc('Zero-or-many').value, oslc('One-or-many').value];
+
+// oslc:valueType values of properties linking to other resources
+const LINK_VALUE_TYPES = [oslc('Resource').value, oslc('LocalResource').value, oslc('AnyResource').value];
+
+/**
+ * An oslc:Property of a ResourceShape: what values a property of the
+ * described resources may have
+ * @class
+ * @param {Quad_Subject} node - the oslc:Property, usually a blank node
+ * @param {IndexedFormula} store - the RDF graph of the shape document
+ */
+export default class PropertyDefinition {
+  readonly node: Quad_Subject;
+  /** The property URI, the oslc:propertyDefinition */
+  readonly propertyDefinition: string;
+  /** The local name of the property, the oslc:name */
+  readonly name?: string;
+  readonly title?: string;
+  readonly description?: string;
+  /** The oslc:occurs URI, such as oslc:Exactly-one */
+  readonly occurs?: string;
+  readonly valueType?: string;
+  readonly range: string[];
+  readonly representation?: string;
+  readonly readOnly?: boolean;
+  readonly hidden?: boolean;
+  readonly defaultValue?: string;
+  /** Does the property link query results to their members? */
+  readonly isMemberProperty?: boolean;
+  /** The oslc:allowedValue values, given inline or by the oslc:allowedValues resource */
+  readonly allowedValues: string[];
+  /** The oslc:allowedValues resource, which may be in another document */
+  readonly allowedValuesURI?: string;
+
+  constructor(node: Quad_Subject, store: IndexedFormula) {
+    const value = (property: NamedNode) => store.any(node, property)?.value;
+    const flag = (property: NamedNode) => {
+      const text = value(property);
+      return text === undefined ? undefined : text === 'true' || text === '1';
+    };
+    this.node = node;
+    this.propertyDefinition = value(oslc('propertyDefinition')) ?? '';
+    this.name = value(oslc('name'));
+    this.title = value(dcterms('title'))?.trim();
+    this.description = value(dcterms('description')) ?? value(rdfs('comment'));
+    this.occurs = value(oslc('occurs'));
+    this.valueType = value(oslc('valueType'));
+    this.range = store.each(node, oslc('range')).map((range) => range.value);
+    this.representation = value(oslc('representation'));
+    this.readOnly = flag(oslc('readOnly'));
+    this.hidden = flag(oslc('hidden'));
+    this.defaultValue = value(oslc('defaultValue'));
+    this.isMemberProperty = flag(oslc('isMemberProperty'));
+
+    const allowedValues = store.any(node, oslc('allowedValues')) as Quad_Subject | null;
+    this.allowedValuesURI = allowedValues?.value;
+    this.allowedValues = [
+      ...store.each(node, oslc('allowedValue')),
+      ...(allowedValues ? store.each(allowedValues, oslc('allowedValue')) : []),
+    ].map((allowed) => allowed.value);
+  }
+
+  /**
+   * Must a resource have a value for this property?
+   */
+  get required(): boolean {
+    return this.occurs !== undefined && REQUIRED_OCCURS.includes(this.occurs);
+  }
+
+  /**
+   * May a resource have several values for this property? Without
+   * oslc:occurs it may, the default is oslc:Zero-or-many.
+   */
+  get multiple(): boolean {
+    return this.occurs === undefined || MULTIPLE_OCCURS.includes(this.occurs);
+  }
+
+  /**
+   * Do the values of this property refer to other resources, rather than
+   * being literals?
+   */
+  get isLink(): boolean {
+    return this.valueType !== undefined && LINK_VALUE_TYPES.includes(this.valueType);
+  }
+}
@@ -0,0 +1,185 @@
+/*
+ * Fluent construction of OSLC queries
+ */
+
+import { parseQuery, prefixedName, serializeQuery, toQueryLiteral } from './query.js';
+import type {
+  OrderByTerm,
+  PropertyPath,
+  QueryAST,
+  QueryComparisonOperator,
+  QueryLiteral,
+  QueryParams,
+  QueryValue,
+  WhereTerm,
+} from './types.js';
+
+/**
+ * Builds the oslc.where, oslc.select, oslc.orderBy and oslc.searchTerms
+ * clauses of a query, escaping the values and declaring in oslc.prefix the
+ * prefixes the query uses. Properties may be prefixed names such as dcterms:title, NamedNodes
+ * such as dcterms('title'), or arrays for paths through linked resources.
+ *
+ *     const query = new QueryBuilder()
+ *       .select('dcterms:title', ['dcterms:creator', 'foaf:name'])
+ *       .where(rdf('type'), '=', oslc_cm('Defect'))
+ *       .where('oslc_cm:status', 'in', ['Open', 'In Progress'])
+ *       .where(['dcterms:creator', 'foaf:name'], '=', 'Bob')
+ *       .where('dcterms:modified', '>', new Date('2024-01-01'))
+ *       .orderBy('dcterms:modified', 'desc');
+ *     const defects = await client.queryResources(oslc_cm('ChangeRequest'), query);
+ * @class
+ * @param {QueryAST} ast - a query to start from, see QueryBuilder.parse()
+ */
+export default class QueryBuilder {
+  private ast: QueryAST;
+
+  constructor(ast: QueryAST = { prefixes: {} }) {
+    this.ast = structuredClone(ast);
+  }
+
+  /**
+   * Start from the clauses of an existing query, such as one a user entered
+   *
+   * @param {QueryParams} query - the clauses
+   * @throws {QuerySyntaxError} if a clause is not valid or uses an unknown prefix
+   */
+  static parse(query: QueryParams): QueryBuilder {
+    return new QueryBuilder(parseQuery(query));
+  }
+
+  /**
+   * Declare a prefix for a namespace that isn't in namespaces.ts
+   *
+   * @param {string} prefix - the prefix, e.g. acme
+   * @param {string} namespace - the namespace URI, e.g. https://acme.example/ns#
+   */
+  prefix(prefix: string, namespace: string): this {
+    this.ast.prefixes[prefix] = namespace;
+    return this;
+  }
+
+  /**
+   * Add properties to oslc.select. Paths select properties of linked
+   * resources, and paths with the same start are merged, so
+   * ['dcterms:creator', 'foaf:name'] and ['dcterms:creator', 'foaf:mbox']
+   * select dcterms:creator{foaf:name,foaf:mbox}.
+   *
+   * @param {PropertyPath[]} properties - the properties, or * for all
+   */
+  select(...properties: PropertyPath[]): this {
+    this.ast.select ??= [];
+    for (const property of properties) {
+      const path = this.path(property);
+      let terms = this.ast.select;
+      for (const [index, name] of path.entries()) {
+        let term = terms.find((candidate) => candidate.property === name);
+        if (!term) {
+          term = { property: name };
+          terms.push(term);
+        }
+        if (index < path.length - 1) terms = term.nested ??= [];
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Add a term to oslc.where, all terms must hold. A path compares a
+   * property of a linked resource, ['dcterms:creator', 'foaf:name'] is
+   * dcterms:creator{foaf:name=...}. For several conditions on the same
+   * linked resource, pass a function building them instead.
+   *
+   * @param {PropertyPath} property - the property, or * for any
+   * @param {string} operator - a comparison operator, or in
+   * @param {QueryValue|QueryValue[]} value - the value, or the values for in
+   */
+  where(property: PropertyPath, operator: QueryComparisonOperator, value: QueryValue): this;
+  where(property: PropertyPath, operator: 'in', values: QueryValue[]): this;
+  where(property: PropertyPath, scope: (linked: QueryBuilder) => QueryBuilder | void): this;
+  where(
+    property: PropertyPath,
+    operatorOrScope: QueryComparisonOperator | 'in' | ((linked: QueryBuilder) => QueryBuilder | void),
+    value?: QueryValue | QueryValue[]
+  ): this {
+    const path = this.path(property);
+    let term: WhereTerm;
+    const last = path[path.length - 1];
+    if (typeof operatorOrScope === 'function') {
+      // The linked builder shares the prefixes, so those it generates are declared
+      const linked = new QueryBuilder();
+      linked.ast.prefixes = this.ast.prefixes;
+      operatorOrScope(linked);
+      term = { kind: 'scoped', property: last, terms: linked.ast.where ?? [] };
+    } else if (operatorOrScope === 'in') {
+      term = { kind: 'in', property: last, values: (value as QueryValue[]).map((item) => this.literal(item)) };
+    } else {
+      const literal = this.literal(value as QueryValue);
+      term = { kind: 'comparison', property: last, operator: operatorOrScope, value: literal };
+    }
+    for (const scope of path.slice(0, -1).reverse()) {
+      term = { kind: 'scoped', property: scope, terms: [term] };
+    }
+    (this.ast.where ??= []).push(term);
+    return this;
+  }
+
+  /**
+   * Add a sort key to oslc.orderBy, after those already added. A path sorts
+   * by a property of a linked resource.
+   *
+   * @param {PropertyPath} property - the property
+   * @param {string} direction - asc or desc, defaults to asc
+   */
+  orderBy(property: PropertyPath, direction: 'asc' | 'desc' = 'asc'): this {
+    const path = this.path(property);
+    let term: OrderByTerm = { property: path[path.length - 1], direction };
+    for (const scope of path.slice(0, -1).reverse()) {
+      term = { property: scope, terms: [term] };
+    }
+    (this.ast.orderBy ??= []).push(term);
+    return this;
+  }
+
+  /**
+   * Add terms to oslc.searchTerms, for a full-text search. Servers rank the
+   * results by oslc:score, see OSLCClient.search().
+   *
+   * @param {string[]} terms - the words or phrases to search for
+   */
+  searchTerms(...terms: string[]): this {
+    (this.ast.searchTerms ??= []).push(...terms);
+    return this;
+  }
+
+  /**
+   * Get the query's syntax tree
+   */
+  toAST(): QueryAST {
+    return structuredClone(this.ast);
+  }
+
+  /**
+   * Get the clauses to send, with oslc.prefix declaring the prefixes used
+   *
+   * @returns {QueryParams} the clauses
+   * @throws {QueryError} if the query uses a prefix that isn't declared or in namespaces.ts
+   */
+  build(): QueryParams {
+    return serializeQuery(this.ast);
+  }
+
+  private path(property: PropertyPath): string[] {
+    const path = Array.isArray(property) ? property : [property];
+    if (path.length === 0) throw new TypeError('A property path needs at least one property');
+    return path.map((name) => prefixedName(name, this.ast.prefixes));
+  }
+
+  private literal(value: QueryValue): QueryLiteral {
+    const literal = toQueryLiteral(value);
+    if (literal.kind === 'string' && literal.datatype) {
+      return { ...literal, datatype: prefixedName(literal.datatype, this.ast.prefixes) };
+    }
+    return literal;
+  }
+}
@@ -0,0 +1,118 @@
+/*
+ * Client-wide request concurrency and rate limiting
+ */
+
+import type { SchedulerOptions } from './types.js';
+
+/**
+ * Limits how many requests an OSLCClient has in flight and, optionally, how
+ * many it starts per second against each host. Waiting requests are queued
+ * per host and the hosts are served round-robin, so fanning out over one
+ * server doesn't starve requests to another.
+ * @class
+ * @param {SchedulerOptions} options - the limits to enforce
+ */
+export default class RequestScheduler {
+  private maxConcurrent: number;
+  private requestsPerSecond?: number | Record<string, number>;
+  private active = 0;
+  // Waiting requests by host, in round-robin order
+  private queues: Map<string, Array<() => void>> = new Map();
+  // Earliest time the next request to a rate limited host may start
+  private nextStart: Map<string, number> = new Map();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 10;
+    this.requestsPerSecond = options.requestsPerSecond;
+  }
+
+  /**
+   * Run a task once the limits allow a request to the given URL
+   *
+   * @param {string} url - the URL the task will request
+   * @param {Function} task - starts the request
+   * @param {AbortSignal} signal - removes the task from the queue if aborted before it starts
+   * @returns the result of the task
+   */
+  schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = new URL(url).host;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        const queue = this.queues.get(host);
+        const index = queue?.indexOf(start) ?? -1;
+        if (index >= 0) {
+          queue!.splice(index, 1);
+          if (queue!.length === 0) this.queues.delete(host);
+        }
+        reject(signal!.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.dispatch();
+          });
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const queue = this.queues.get(host);
+      if (queue) {
+        queue.push(start);
+      } else {
+        this.queues.set(host, [start]);
+      }
+      this.dispatch();
+    });
+  }
+
+  private rateFor(host: string): number | undefined {
+    return typeof this.requestsPerSecond === 'number'
+      ? this.requestsPerSecond
+      : this.requestsPerSecond?.[host];
+  }
+
+  private dispatch(): void {
+    while (this.active < this.maxConcurrent && this.queues.size > 0) {
+      const now = Date.now();
+      let host: string | undefined;
+      let wait = Infinity;
+      for (const candidate of this.queues.keys()) {
+        const readyAt = this.nextStart.get(candidate) ?? 0;
+        if (readyAt <= now) {
+          host = candidate;
+          break;
+        }
+        wait = Math.min(wait, readyAt - now);
+      }
+      if (host === undefined) {
+        // Every waiting host is rate limited, try again when the first one frees up
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.dispatch();
+        }, wait);
+        return;
+      }
+
+      const queue = this.queues.get(host)!;
+      const start = queue.shift()!;
+      // Move the host to the back of the round-robin order
+      this.queues.delete(host);
+      if (queue.length > 0) {
+        this.queues.set(host, queue);
+      }
+      const rate = this.rateFor(host);
+      if (rate) {
+        this.nextStart.set(host, Math.max(now, this.nextStart.get(host) ?? 0) + 1000 / rate);
+      }
+      this.active++;
+      start();
+    }
+  }
+}
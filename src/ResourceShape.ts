@@ -0,0 +1,85 @@
+/*
+ * An OSLC ResourceShape: the properties of the resources of some types
+ */
+
+import type { IndexedFormula } from 'rdflib';
+import * as $rdf from 'rdflib';
+import type { NamedNode, Quad_Subject } from 'rdflib/lib/tf-types';
+import OSLCResource from './OSLCResource.js';
+import PropertyDefinition from './PropertyDefinition.js';
+import { dcterms, oslc, rdf } from './namespaces.js';
+
+/**
+ * Encapsulates an OSLC ResourceShape, read from a shape document. Several
+ * shapes may share a document, the URI selects one by its fragment.
+ * @class
+ *
+ * @constructor
+ * @param {string} uri - the URI of the shape
+ * @param {IndexedFormula} store - the RDF graph of the shape document
+ * @param {string} etag - the ETag of the shape document
+ */
+export default class ResourceShape extends OSLCResource {
+  /** The oslc:ResourceShape, which the resource URI leaves the fragment off */
+  readonly shape: Quad_Subject;
+  readonly properties: PropertyDefinition[];
+
+  constructor(uri: string, store: IndexedFormula, etag: string | undefined = undefined) {
+    super(uri, store, etag);
+    const shape = $rdf.sym(uri);
+    this.shape =
+      store.any(shape, oslc('property')) || store.holds(shape, rdf('type'), oslc('ResourceShape'))
+        ? shape
+        : ((store.any(undefined, rdf('type'), oslc('ResourceShape')) as Quad_Subject | null) ?? shape);
+    this.properties = (store.each(this.shape, oslc('property')) as Quad_Subject[]).map(
+      (property) => new PropertyDefinition(property, store)
+    );
+  }
+
+  /**
+   * Get the title of the shape
+   * @returns {string|undefined}
+   */
+  getTitle(): string | undefined {
+    return this.store.any(this.shape, dcterms('title'))?.value?.trim();
+  }
+
+  /**
+   * Get the types of the resources the shape describes
+   * @returns {string[]} the oslc:describes type URIs
+   */
+  describes(): string[] {
+    return this.store.each(this.shape, oslc('describes')).map((type) => type.value);
+  }
+
+  /**
+   * Get the definition of a property
+   *
+   * @param {string|NamedNode} property - the property URI, or its oslc:name
+   * @returns {PropertyDefinition|undefined} the definition, if the shape has the property
+   */
+  property(property: string | NamedNode): PropertyDefinition | undefined {
+    const uri = typeof property === 'string' ? property : property.value;
+    return (
+      this.properties.find((definition) => definition.propertyDefinition === uri) ??
+      this.properties.find((definition) => definition.name === uri)
+    );
+  }
+
+  /**
+   * Get the property linking query results to their members, for the shape
+   * of a query capability's results
+   * @returns {PropertyDefinition|undefined} the property with oslc:isMemberProperty true, if any
+   */
+  memberProperty(): PropertyDefinition | undefined {
+    return this.properties.find((definition) => definition.isMemberProperty);
+  }
+
+  /**
+   * Get the properties a resource must have a value for
+   * @returns {PropertyDefinition[]} the required properties
+   */
+  requiredProperties(): PropertyDefinition[] {
+    return this.properties.filter((definition) => definition.required);
+  }
+}
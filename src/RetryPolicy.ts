@@ -0,0 +1,93 @@
+/*
+ * Retry policy for transient HTTP failures
+ */
+
+import { isAxiosError } from 'axios';
+import type { RetryOptions } from './types.js';
+
+// Methods whose effect doesn't depend on how often they are sent
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Socket level failures worth another attempt
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ECONNABORTED'];
+
+// Retry-After is either delay-seconds or an HTTP-date
+function parseRetryAfter(value: string): number | null {
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decides whether and when a failed request is sent again. Delays grow
+ * exponentially from baseDelay up to maxDelay with random jitter, unless
+ * the server says how long to wait with a Retry-After header.
+ *
+ * Idempotent methods are retried on any retryable status or transient network
+ * error. Other methods, e.g. a POST to a creation factory, are only retried
+ * when the server asks for it with a Retry-After header, as a failed attempt
+ * may already have created the resource.
+ * @class
+ * @param {RetryOptions} options - the retry settings
+ */
+export default class RetryPolicy {
+  readonly maxAttempts: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private jitter: number;
+  private retryOnStatus: number[];
+  private respectRetryAfter: boolean;
+  private idempotentMethods: string[];
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.baseDelay = options.baseDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.jitter = options.jitter ?? 0.5;
+    this.retryOnStatus = options.retryOnStatus ?? [408, 429, 502, 503, 504];
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+    this.idempotentMethods = (options.idempotentMethods ?? IDEMPOTENT_METHODS).map((m) => m.toUpperCase());
+  }
+
+  /**
+   * Should a request that failed with the given error be sent again?
+   *
+   * @param {number} attempt - the number of attempts made so far
+   * @param {string} method - the HTTP method of the request
+   * @param {unknown} error - what the failed attempt threw
+   * @returns {boolean} true to retry
+   */
+  shouldRetry(attempt: number, method: string, error: unknown): boolean {
+    if (attempt >= this.maxAttempts || !isAxiosError(error)) {
+      return false;
+    }
+    const idempotent = this.idempotentMethods.includes(method.toUpperCase());
+    const status = error.response?.status;
+    if (status !== undefined) {
+      return this.retryOnStatus.includes(status) && (idempotent || !!error.response?.headers?.['retry-after']);
+    }
+    return idempotent && TRANSIENT_ERROR_CODES.includes(error.code ?? '');
+  }
+
+  /**
+   * How long to wait before the next attempt
+   *
+   * @param {number} attempt - the number of attempts made so far
+   * @param {unknown} error - what the failed attempt threw
+   * @returns {number|null} the delay in milliseconds, or null when the server
+   *   asks to wait longer than maxDelay and retrying is pointless
+   */
+  delay(attempt: number, error: unknown): number | null {
+    const retryAfter = isAxiosError(error) ? error.response?.headers?.['retry-after'] : undefined;
+    if (this.respectRetryAfter && retryAfter) {
+      const wait = parseRetryAfter(String(retryAfter));
+      if (wait !== null) {
+        return wait <= this.maxDelay ? wait : null;
+      }
+    }
+    const backoff = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1));
+    return Math.round(backoff * (1 - this.jitter * Math.random()));
+  }
+}
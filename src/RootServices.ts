@@ -17,6 +17,8 @@
 import type { IndexedFormula } from 'rdflib';
 import type { NamedNode } from 'rdflib/lib/tf-types';
 import OSLCResource from './OSLCResource.js';
+import { dcterms, jd, jfs, oslc } from './namespaces.js';
+import type { OAuth1Endpoints, RootServicesCatalog, ServerDescription } from './types.js';
 
 /**
  * Encapsulates a Jazz rootservices document on an RDF Store
@@ -49,4 +51,145 @@ export default class RootServices extends OSLCResource {
     const catalog = this.store.the(this.uri, serviceProviders);
     return catalog?.value;
   }
+
+  /**
+   * Get the ServiceProviderCatalog for an OSLC domain from the inlined
+   * jd:oslcCatalogs shown above, which also lists domains that have no
+   * *serviceProviders property of their own.
+   *
+   * @param {string} domain - the domain namespace URI, e.g. http://open-services.net/ns/am#
+   * @returns {string|undefined} - the first matching service provider catalog URI
+   */
+  catalogForDomain(domain: string): string | undefined {
+    const catalogs = this.store.each(this.uri, jd('oslcCatalogs'));
+    const catalog = catalogs.find((candidate) =>
+      this.store.holds(candidate as NamedNode, oslc('domain'), this.store.sym(domain))
+    );
+    return catalog?.value;
+  }
+
+  /**
+   * Get the domains of the jd:oslcCatalogs this server advertises
+   *
+   * @returns {string[]} - the oslc:domain namespace URIs
+   */
+  domains(): string[] {
+    const domains = this.store
+      .each(this.uri, jd('oslcCatalogs'))
+      .flatMap((catalog) => this.store.each(catalog as NamedNode, oslc('domain')))
+      .map((domain) => domain.value);
+    return [...new Set(domains)];
+  }
+
+  /**
+   * Get the OAuth 1.0a consumer endpoints Jazz applications advertise
+   * for their friends, e.g. jfs:oauthRequestTokenUrl.
+   *
+   * @returns {OAuth1Endpoints|undefined} - the endpoints, or undefined if OAuth is not advertised
+   */
+  oauthEndpoints(): OAuth1Endpoints | undefined {
+    const requestTokenUrl = this.store.the(this.uri, jfs('oauthRequestTokenUrl'))?.value;
+    const userAuthorizationUrl = this.store.the(this.uri, jfs('oauthUserAuthorizationUrl'))?.value;
+    const accessTokenUrl = this.store.the(this.uri, jfs('oauthAccessTokenUrl'))?.value;
+    if (!requestTokenUrl || !userAuthorizationUrl || !accessTokenUrl) {
+      return undefined;
+    }
+    const realm = this.store.the(this.uri, jfs('oauthRealmName'))?.value;
+    const domain = this.store.the(this.uri, jfs('oauthDomain'))?.value;
+    const requestConsumerKeyUrl = this.store.the(this.uri, jfs('oauthRequestConsumerKeyUrl'))?.value;
+    const approvalModuleUrl = this.store.the(this.uri, jfs('oauthApprovalModuleUrl'))?.value;
+    return {
+      requestTokenUrl,
+      userAuthorizationUrl,
+      accessTokenUrl,
+      realm,
+      domain,
+      requestConsumerKeyUrl,
+      approvalModuleUrl,
+    };
+  }
+
+  /**
+   * Get every service provider catalog the document lists, in jd:oslcCatalogs
+   * or a *ServiceProviders property such as oslc_cm1:cmServiceProviders
+   *
+   * @returns {RootServicesCatalog[]} - the catalogs, with their domains and the properties linking to them
+   */
+  catalogs(): RootServicesCatalog[] {
+    const catalogs = new Map<string, RootServicesCatalog>();
+    const entry = (url: string) => {
+      if (!catalogs.has(url)) catalogs.set(url, { url, domains: [], properties: [] });
+      return catalogs.get(url)!;
+    };
+    for (const catalog of this.store.each(this.uri, jd('oslcCatalogs'))) {
+      entry(catalog.value).domains.push(
+        ...this.store.each(catalog as NamedNode, oslc('domain')).map((domain) => domain.value)
+      );
+    }
+    for (const statement of this.store.statementsMatching(this.uri, undefined, undefined)) {
+      if (statement.predicate.value.endsWith('ServiceProviders') && statement.object.termType === 'NamedNode') {
+        entry(statement.object.value).properties.push(statement.predicate.value);
+      }
+    }
+    return [...catalogs.values()];
+  }
+
+  /**
+   * Get the title of the application, e.g. Change and Configuration Management
+   *
+   * @returns {string|undefined} - the dcterms:title
+   */
+  title(): string | undefined {
+    return this.store.the(this.uri, dcterms('title'))?.value;
+  }
+
+  /**
+   * Get the version of the application. Jazz applications name the property
+   * differently, so this is the first literal property whose name ends with
+   * version.
+   *
+   * @returns {string|undefined} - the version, e.g. 7.0.3
+   */
+  version(): string | undefined {
+    return this.store
+      .statementsMatching(this.uri, undefined, undefined)
+      .find((statement) => /version$/i.test(statement.predicate.value) && statement.object.termType === 'Literal')
+      ?.object.value;
+  }
+
+  /**
+   * Get the URL of the Jazz Team Server user directory
+   *
+   * @returns {string|undefined} - the jfs:users URL
+   */
+  usersUrl(): string | undefined {
+    return this.store.the(this.uri, jfs('users'))?.value;
+  }
+
+  /**
+   * Get the URL describing the authenticated user, the whoami service
+   *
+   * @returns {string|undefined} - the jfs:currentUser URL
+   */
+  currentUserUrl(): string | undefined {
+    return this.store.the(this.uri, jfs('currentUser'))?.value;
+  }
+
+  /**
+   * Describe the application: its title, version, catalogs, OAuth endpoints
+   * and user services
+   *
+   * @returns {ServerDescription} - everything the document advertises
+   */
+  describe(): ServerDescription {
+    return {
+      url: this.getURI(),
+      title: this.title(),
+      version: this.version(),
+      catalogs: this.catalogs(),
+      oauth: this.oauthEndpoints(),
+      usersUrl: this.usersUrl(),
+      currentUserUrl: this.currentUserUrl(),
+    };
+  }
 }
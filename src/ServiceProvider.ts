@@ -18,6 +18,8 @@ import type { IndexedFormula } from 'rdflib';
 import type { NamedNode, Quad_Subject } from 'rdflib/lib/tf-types';
 import OSLCResource from './OSLCResource.js';
 import { oslc } from './namespaces.js';
+import { type Capability, CreationFactory, Dialog, Publisher, QueryCapability, Service } from './services.js';
+import type { CapabilityFilter } from './types.js';
 
 /**
  * Encapsulates an OSLC ServiceProvider resource as in-memory RDF knowledge base
@@ -30,34 +32,159 @@ import { oslc } from './namespaces.js';
  * @param {string} etag - the ETag of the resource
  */
 export default class ServiceProvider extends OSLCResource {
+  private serviceList?: Service[];
+
   constructor(uri: string, store: IndexedFormula, etag: string | undefined = undefined) {
     // Parse the RDF source into an internal representation for future use
     super(uri, store, etag);
   }
 
+  /**
+   * Get the services of this service provider, one per domain it supports
+   *
+   * @returns {Service[]} the oslc:service resources
+   */
+  services(): Service[] {
+    return (this.serviceList ??= (this.store.each(this.uri, oslc('service')) as Quad_Subject[]).map(
+      (service) => new Service(service, this.store)
+    ));
+  }
+
+  /**
+   * Get the query capabilities of all the services, or those matching a filter
+   *
+   * @param {CapabilityFilter} filter - criteria the query capabilities must match
+   * @returns {QueryCapability[]} the matching query capabilities
+   */
+  queryCapabilities(filter: CapabilityFilter = {}): QueryCapability[] {
+    return this.services()
+      .flatMap((service) => service.queryCapabilities)
+      .filter((capability) => capability.matches(filter));
+  }
+
+  /**
+   * Get the creation factories of all the services, or those matching a filter
+   *
+   * @param {CapabilityFilter} filter - criteria the creation factories must match
+   * @returns {CreationFactory[]} the matching creation factories
+   */
+  creationFactories(filter: CapabilityFilter = {}): CreationFactory[] {
+    return this.services()
+      .flatMap((service) => service.creationFactories)
+      .filter((capability) => capability.matches(filter));
+  }
+
+  /**
+   * Get the selection dialogs of all the services, or those matching a filter
+   *
+   * @param {CapabilityFilter} filter - criteria the dialogs must match
+   * @returns {Dialog[]} the matching selection dialogs
+   */
+  selectionDialogs(filter: CapabilityFilter = {}): Dialog[] {
+    return this.services()
+      .flatMap((service) => service.selectionDialogs)
+      .filter((capability) => capability.matches(filter));
+  }
+
+  /**
+   * Get the creation dialogs of all the services, or those matching a filter
+   *
+   * @param {CapabilityFilter} filter - criteria the dialogs must match
+   * @returns {Dialog[]} the matching creation dialogs
+   */
+  creationDialogs(filter: CapabilityFilter = {}): Dialog[] {
+    return this.services()
+      .flatMap((service) => service.creationDialogs)
+      .filter((capability) => capability.matches(filter));
+  }
+
+  /**
+   * Get the tool offering this service provider
+   *
+   * @returns {Publisher|undefined} the oslc:publisher, if the service provider has one
+   */
+  publisher(): Publisher | undefined {
+    const publisher = this.store.any(this.uri, oslc('publisher')) as Quad_Subject | null;
+    return publisher ? new Publisher(publisher, this.store) : undefined;
+  }
+
+  /**
+   * Get the query capability for an oslc:resourceType, or else an oslc:usage.
+   * Of several, the one with the oslc:default usage is preferred.
+   *
+   * @param {string|NamedNode} resourceType - the type, or its local name
+   * @returns {QueryCapability|undefined} the query capability
+   */
+  queryCapability(resourceType: string | NamedNode): QueryCapability | undefined {
+    return ServiceProvider.preferred(
+      this.queryCapabilities({ resourceType }),
+      this.queryCapabilities({ usage: resourceType })
+    );
+  }
+
+  /**
+   * Get the creation factory for an oslc:resourceType, or else an oslc:usage.
+   * Of several, the one with the oslc:default usage is preferred.
+   *
+   * @param {string|NamedNode} resourceType - the type, or its local name
+   * @returns {CreationFactory|undefined} the creation factory
+   */
+  creationFactory(resourceType: string | NamedNode): CreationFactory | undefined {
+    return ServiceProvider.preferred(
+      this.creationFactories({ resourceType }),
+      this.creationFactories({ usage: resourceType })
+    );
+  }
+
+  /**
+   * Get the selection dialog for an oslc:resourceType, or else an oslc:usage.
+   * Of several, the one with the oslc:default usage is preferred.
+   *
+   * @param {string|NamedNode} resourceType - the type, or its local name
+   * @returns {Dialog|undefined} the selection dialog
+   */
+  selectionDialog(resourceType: string | NamedNode): Dialog | undefined {
+    return ServiceProvider.preferred(
+      this.selectionDialogs({ resourceType }),
+      this.selectionDialogs({ usage: resourceType })
+    );
+  }
+
+  /**
+   * Get the creation dialog for an oslc:resourceType, or else an oslc:usage.
+   * Of several, the one with the oslc:default usage is preferred.
+   *
+   * @param {string|NamedNode} resourceType - the type, or its local name
+   * @returns {Dialog|undefined} the creation dialog
+   */
+  creationDialog(resourceType: string | NamedNode): Dialog | undefined {
+    return ServiceProvider.preferred(
+      this.creationDialogs({ resourceType }),
+      this.creationDialogs({ usage: resourceType })
+    );
+  }
+
+  /**
+   * Get the URL of the ResourceShape describing resources of a type, from
+   * its creation factory, or else its query capability
+   *
+   * @param {string|NamedNode} resourceType - the type, or its local name
+   * @returns {string|undefined} the oslc:resourceShape URL
+   */
+  getResourceShape(resourceType: string | NamedNode): string | undefined {
+    return (
+      this.creationFactory(resourceType)?.resourceShapes[0] ?? this.queryCapability(resourceType)?.resourceShapes[0]
+    );
+  }
+
   /**
    * Get the queryBase URL for an OSLC QueryCapability with the given oslc:resourceType
    *
-   * @param {string|NamedNode} resourceType - a symbol for the desired oslc:resourceType
+   * @param {string|NamedNode} resourceType - a symbol for, or the name of the desired oslc:resourceType
    * @returns {string|null} the queryBase URL used to query resources of that type
    */
   getQueryBase(resourceType: string | NamedNode): string | null {
-    const resourceTypeSym =
-      typeof resourceType === 'string' ? this.store.sym(resourceType) : resourceType;
-    const services = this.store.each(this.uri, oslc('service'));
-    for (const service of services) {
-      const queryCapabilities = this.store.each(service as Quad_Subject, oslc('queryCapability'));
-      for (const queryCapability of queryCapabilities) {
-        if (
-          this.store.statementsMatching(queryCapability as Quad_Subject, oslc('resourceType'), resourceTypeSym)
-            .length
-        ) {
-          const queryBase = this.store.the(queryCapability as Quad_Subject, oslc('queryBase'));
-          return queryBase?.value || null;
-        }
-      }
-    }
-    return null;
+    return this.queryCapability(resourceType)?.queryBase ?? null;
   }
 
   /**
@@ -67,30 +194,12 @@ export default class ServiceProvider extends OSLCResource {
    * @returns {string|null} the creation URL used to create resources of that type
    */
   getCreationFactory(resourceType: string | NamedNode): string | null {
-    const services = this.store.each(this.uri, oslc('service'));
-    for (const service of services) {
-      const creationFactories = this.store.each(service as Quad_Subject, oslc('creationFactory'));
-      for (const creationFactory of creationFactories) {
-        if (typeof resourceType === 'string') {
-          const types = this.store.each(creationFactory as Quad_Subject, oslc('resourceType'));
-          for (const aType of types) {
-            if ((aType as NamedNode).value?.endsWith(resourceType)) {
-              const creation = this.store.the(creationFactory as Quad_Subject, oslc('creation'));
-              return (creation as NamedNode)?.value || null;
-            }
-          }
-        } else if (
-          this.store.statementsMatching(
-            creationFactory as Quad_Subject,
-            oslc('resourceType'),
-            resourceType
-          ).length === 1
-        ) {
-          const creation = this.store.the(creationFactory as Quad_Subject, oslc('creation'));
-          return (creation as NamedNode)?.value || null;
-        }
-      }
-    }
-    return null;
+    return this.creationFactory(resourceType)?.creation ?? null;
+  }
+
+  // The default capability of those matching the type, else of those matching the usage
+  private static preferred<T extends Capability>(byType: T[], byUsage: T[]): T | undefined {
+    const candidates = byType.length > 0 ? byType : byUsage;
+    return candidates.find((capability) => capability.isDefault) ?? candidates[0];
   }
 }
@@ -15,9 +15,10 @@
  */
 
 import type { IndexedFormula } from 'rdflib';
-import * as $rdf from 'rdflib';
+import type { Quad_Subject } from 'rdflib/lib/tf-types';
 import OSLCResource from './OSLCResource.js';
-import { dcterms } from './namespaces.js';
+import { dcterms, oslc } from './namespaces.js';
+import type { ServiceProviderInfo, ServiceProviderSelector } from './types.js';
 
 /**
  * Encapsulates an OSLC ServiceProviderCatalog resource as in-memory RDF knowledge base
@@ -34,23 +35,104 @@ export default class ServiceProviderCatalog extends OSLCResource {
     super(uri, store, etag);
   }
 
+  /**
+   * Find the first service provider matching a selector, in order of
+   * preference: exact title, title ignoring case, then identifier
+   *
+   * @param {ServiceProviderInfo[]} providers - the providers to search
+   * @param {ServiceProviderSelector} selector - what to look for
+   * @returns {ServiceProviderInfo|undefined} the matching provider
+   */
+  static match(providers: ServiceProviderInfo[], selector: ServiceProviderSelector): ServiceProviderInfo | undefined {
+    if (typeof selector === 'string') {
+      const lowerCase = selector.toLowerCase();
+      return (
+        providers.find((provider) => provider.title === selector) ??
+        providers.find((provider) => provider.title?.toLowerCase() === lowerCase) ??
+        providers.find((provider) => provider.identifier === selector)
+      );
+    }
+    if (selector instanceof RegExp) {
+      return providers.find((provider) => provider.title !== undefined && selector.test(provider.title));
+    }
+    return providers.find(
+      (provider) =>
+        (selector.identifier === undefined || provider.identifier === selector.identifier) &&
+        (selector.title === undefined ||
+          (provider.title !== undefined &&
+            (selector.title instanceof RegExp
+              ? selector.title.test(provider.title)
+              : provider.title.toLowerCase() === selector.title.toLowerCase())))
+    );
+  }
+
   /**
    * Get the ServiceProvider with the given service provider name. This will also load all the
    * services for that service provider so they are available for use.
    *
-   * @param {string} serviceProviderTitle - the dcterms:title of the service provider (e.g., an EWM project area)
+   * @param {ServiceProviderSelector} serviceProviderTitle - the dcterms:title of the service provider
+   *   (e.g., an EWM project area), or another selector, see ServiceProviderCatalog.match()
    * @returns {string|undefined} serviceProviderURL - the matching ServiceProvider URL from the service provider catalog
    */
-  serviceProvider(serviceProviderTitle: string): string | undefined {
-    const sp = this.store.statementsMatching(
-      undefined,
-      dcterms('title'),
-      $rdf.literal(serviceProviderTitle, this.store.sym('http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral'))
-    );
-    if (!sp || sp.length === 0) {
-      return undefined;
-    } else {
-      return sp[0].subject.value;
-    }
+  serviceProvider(serviceProviderTitle: ServiceProviderSelector): string | undefined {
+    return ServiceProviderCatalog.match(this.listServiceProviders(), serviceProviderTitle)?.uri;
+  }
+
+  /**
+   * List the service providers of this catalog, including those of nested
+   * catalogs described in the same document
+   *
+   * @returns {ServiceProviderInfo[]} the service providers, with their titles, identifiers and domains
+   */
+  listServiceProviders(): ServiceProviderInfo[] {
+    const providers: ServiceProviderInfo[] = [];
+    const visited = new Set<string>();
+    const visit = (catalog: Quad_Subject, parentDomains: string[]) => {
+      if (visited.has(catalog.value)) return;
+      visited.add(catalog.value);
+      const ownDomains = this.store.each(catalog, oslc('domain')).map((domain) => domain.value);
+      const catalogDomains = ownDomains.length > 0 ? ownDomains : parentDomains;
+      for (const provider of this.store.each(catalog, oslc('serviceProvider')) as Quad_Subject[]) {
+        const domains = this.store.each(provider, oslc('domain')).map((domain) => domain.value);
+        providers.push({
+          uri: provider.value,
+          title: this.store.any(provider, dcterms('title'))?.value?.trim(),
+          identifier: this.store.any(provider, dcterms('identifier'))?.value,
+          domains: domains.length > 0 ? domains : catalogDomains,
+          catalog: catalog.value,
+        });
+      }
+      for (const nested of this.store.each(catalog, oslc('serviceProviderCatalog')) as Quad_Subject[]) {
+        visit(nested, catalogDomains);
+      }
+    };
+    visit(this.uri, []);
+    return providers;
+  }
+
+  /**
+   * Get the nested oslc:serviceProviderCatalog entries that are only linked
+   * from this document, and have to be fetched to list their providers
+   *
+   * @returns {string[]} the URIs of the nested catalogs
+   */
+  nestedCatalogs(): string[] {
+    const nested: string[] = [];
+    const visited = new Set<string>();
+    const visit = (catalog: Quad_Subject) => {
+      if (visited.has(catalog.value)) return;
+      visited.add(catalog.value);
+      for (const child of this.store.each(catalog, oslc('serviceProviderCatalog')) as Quad_Subject[]) {
+        const described =
+          this.store.any(child, oslc('serviceProvider')) ?? this.store.any(child, oslc('serviceProviderCatalog'));
+        if (described) {
+          visit(child);
+        } else if (!visited.has(child.value)) {
+          nested.push(child.value);
+        }
+      }
+    };
+    visit(this.uri);
+    return [...new Set(nested)];
   }
 }
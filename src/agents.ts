@@ -0,0 +1,229 @@
+/*
+ * Node.js HTTP(S) agents carrying the cookie jar, TLS settings and proxy
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import tls from 'node:tls';
+import type { Duplex } from 'node:stream';
+import type { CreateAxiosDefaults } from 'axios';
+import { createCookieAgent, HttpCookieAgent, HttpsCookieAgent } from 'http-cookie-agent/http';
+import type { CookieJar } from 'tough-cookie';
+import type { TransportOptions } from './types.js';
+
+type ConnectCallback = (error: Error | null, socket: Duplex) => void;
+
+type ProxyResolver = (protocol: string, host: string, port: number) => URL | undefined;
+
+declare module 'http' {
+  interface Agent {
+    addRequest(request: ClientRequest, options: RequestOptions): void;
+  }
+}
+
+/**
+ * Open a connection to the proxy itself
+ *
+ * @param {URL} proxy - the proxy
+ * @returns {net.Socket} the socket
+ */
+function connectProxy(proxy: URL): net.Socket {
+  return proxy.protocol === 'https:'
+    ? tls.connect({ host: proxy.hostname, port: Number(proxy.port) || 443, servername: proxy.hostname })
+    : net.connect(Number(proxy.port) || 80, proxy.hostname);
+}
+
+/**
+ * The Proxy-Authorization header for the credentials in a proxy URL
+ *
+ * @param {URL} proxy - the proxy
+ * @returns {string | undefined} the header value, if the URL has credentials
+ */
+function proxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) return undefined;
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Open a CONNECT tunnel through a proxy to the given host
+ *
+ * @param {URL} proxy - the proxy, with credentials if it requires them
+ * @param {string} host - the target host
+ * @param {number} port - the target port
+ * @param {Function} callback - receives the tunnelled socket or an error
+ */
+function connectTunnel(proxy: URL, host: string, port: number, callback: ConnectCallback): void {
+  const target = `${host}:${port}`;
+  const socket = connectProxy(proxy);
+  const request = [`CONNECT ${target} HTTP/1.1`, `Host: ${target}`];
+  const authorization = proxyAuthorization(proxy);
+  if (authorization) request.push(`Proxy-Authorization: ${authorization}`);
+  socket.write(`${request.join('\r\n')}\r\n\r\n`);
+
+  let received = Buffer.alloc(0);
+  const onError = (error: Error) => {
+    socket.off('data', onData);
+    callback(error, socket);
+  };
+  const onData = (chunk: Buffer) => {
+    received = Buffer.concat([received, chunk]);
+    const end = received.indexOf('\r\n\r\n');
+    if (end < 0) return;
+    socket.off('data', onData);
+    socket.off('error', onError);
+    // The target says nothing before it receives a request, so the response is all there is
+    const statusLine = received.subarray(0, end).toString('latin1').split('\r\n')[0];
+    if (statusLine.split(' ')[1] !== '200') {
+      socket.destroy();
+      callback(new Error(`Proxy ${proxy.host} refused to connect to ${target}: ${statusLine}`), socket);
+      return;
+    }
+    callback(null, socket);
+  };
+  socket.on('data', onData);
+  socket.once('error', onError);
+}
+
+/**
+ * Sends plain HTTP requests to the proxy in absolute form, the way proxies
+ * expect them; many only allow CONNECT to port 443
+ * @class
+ */
+class ProxyHttpAgent extends http.Agent {
+  private resolveProxy: ProxyResolver;
+
+  constructor(resolveProxy: ProxyResolver, options?: http.AgentOptions) {
+    super(options);
+    this.resolveProxy = resolveProxy;
+  }
+
+  addRequest(request: http.ClientRequest, options: http.RequestOptions): void {
+    const port = Number(options.port) || 80;
+    const proxy = this.resolveProxy('http:', request.host, port);
+    if (proxy) {
+      const url = new URL(request.path, `http://${net.isIPv6(request.host) ? `[${request.host}]` : request.host}`);
+      url.port = String(port);
+      request.path = url.href;
+      const authorization = proxyAuthorization(proxy);
+      if (authorization) request.setHeader('Proxy-Authorization', authorization);
+    }
+    super.addRequest(request, options);
+  }
+
+  createConnection(options: http.ClientRequestArgs, callback?: ConnectCallback): Duplex | null | undefined {
+    const proxy = this.resolveProxy('http:', options.host ?? 'localhost', Number(options.port) || 80);
+    return proxy ? connectProxy(proxy) : super.createConnection(options, callback);
+  }
+}
+
+/**
+ * Sends HTTPS requests through a CONNECT tunnel, so the TLS connection and
+ * certificate checks are end to end with the server rather than the proxy
+ * @class
+ */
+class TunnelHttpsAgent extends https.Agent {
+  private resolveProxy: ProxyResolver;
+
+  constructor(resolveProxy: ProxyResolver, options?: https.AgentOptions) {
+    super(options);
+    this.resolveProxy = resolveProxy;
+  }
+
+  createConnection(options: https.RequestOptions, callback?: ConnectCallback): Duplex | null | undefined {
+    const host = options.host ?? 'localhost';
+    const proxy = this.resolveProxy('https:', host, Number(options.port) || 443);
+    if (!proxy) return super.createConnection(options, callback);
+    connectTunnel(proxy, host, Number(options.port) || 443, (error, socket) => {
+      if (error) {
+        callback!(error, socket);
+        return;
+      }
+      // The agent has merged its TLS options, such as ca, into the request options
+      callback!(null, tls.connect({ ...(options as tls.ConnectionOptions), socket, servername: options.servername ?? host }));
+    });
+    return undefined;
+  }
+}
+
+const ProxyHttpCookieAgent = createCookieAgent(ProxyHttpAgent);
+const TunnelHttpsCookieAgent = createCookieAgent(TunnelHttpsAgent);
+
+/**
+ * Whether the NO_PROXY environment variable excludes a host. Entries are
+ * host names, which also match their subdomains, optionally with a port, or *.
+ *
+ * @param {string} host - the target host
+ * @param {number} port - the target port
+ * @returns {boolean} true if the host is to be reached directly
+ */
+function isNoProxy(host: string, port: number): boolean {
+  const noProxy = process.env.no_proxy ?? process.env.NO_PROXY ?? '';
+  return noProxy
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .some((entry) => {
+      if (entry === '*') return true;
+      const [, name, entryPort] = /^(.*?)(?::(\d+))?$/.exec(entry)!;
+      const domain = name.replace(/^\*?\./, '');
+      if (!domain || (entryPort && Number(entryPort) !== port)) return false;
+      const target = host.toLowerCase();
+      return target === domain || target.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * Resolve the proxy for each request from the HTTP_PROXY, HTTPS_PROXY and
+ * NO_PROXY environment variables, as curl and axios do
+ *
+ * @returns {ProxyResolver | undefined} the resolver, or undefined if no proxy is set
+ */
+function environmentProxy(): ProxyResolver | undefined {
+  const proxies: Record<string, string | undefined> = {
+    'http:': process.env.http_proxy || process.env.HTTP_PROXY,
+    'https:': process.env.https_proxy || process.env.HTTPS_PROXY,
+  };
+  if (!proxies['http:'] && !proxies['https:']) return undefined;
+  return (protocol, host, port) => {
+    const proxy = proxies[protocol];
+    if (!proxy || isNoProxy(host, port)) return undefined;
+    // Like curl, accept a proxy given without a scheme
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+  };
+}
+
+/**
+ * Create the axios agent settings for OSLCClient in Node.js. The agents keep
+ * connections alive, store cookies in the jar, verify servers against the
+ * configured CA and, if a proxy is configured or set in the environment,
+ * send requests through it.
+ *
+ * @param {CookieJar} jar - the client's cookie jar
+ * @param {TransportOptions} options - the TLS and proxy settings
+ * @returns the httpAgent, httpsAgent and proxy axios settings
+ */
+export function createAgents(
+  jar: CookieJar,
+  options: TransportOptions
+): Pick<CreateAxiosDefaults, 'httpAgent' | 'httpsAgent' | 'proxy'> {
+  const agentOptions = { keepAlive: true, cookies: { jar } };
+  const tlsOptions = { ca: options.ca, rejectUnauthorized: options.rejectUnauthorized };
+  let resolveProxy: ProxyResolver | undefined;
+  if (typeof options.proxy === 'string') {
+    const proxy = new URL(options.proxy);
+    resolveProxy = () => proxy;
+  } else if (options.proxy !== false) {
+    resolveProxy = environmentProxy();
+  }
+  return {
+    httpAgent: resolveProxy
+      ? new ProxyHttpCookieAgent(resolveProxy, agentOptions)
+      : new HttpCookieAgent(agentOptions),
+    httpsAgent: resolveProxy
+      ? new TunnelHttpsCookieAgent(resolveProxy, { ...agentOptions, ...tlsOptions })
+      : new HttpsCookieAgent({ ...agentOptions, ...tlsOptions }),
+    // The agents do the proxying, axios would send HTTPS requests to the proxy in the clear
+    proxy: false,
+  };
+}
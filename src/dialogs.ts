@@ -0,0 +1,88 @@
+/*
+ * Reading the results of OSLC delegated selection and creation dialogs
+ */
+
+import { TimeoutError } from './errors.js';
+import type { DialogMessageEvent, DialogResult, DialogResultOptions, MessageTarget } from './types.js';
+
+// The postMessage protocol posts this followed by the JSON
+const RESPONSE_PREFIX = 'oslc-response:';
+
+/**
+ * Parse the response of a delegated dialog, the oslc:results JSON posted
+ * after oslc-response: by the postMessage protocol, or set as window.name by
+ * the windowName protocol. No results means the user cancelled the dialog.
+ *
+ * @param {unknown} response - the message or JSON, or the object parsed from it
+ * @returns {DialogResult[]} the chosen or created resources
+ * @throws {SyntaxError} if the response is not JSON
+ */
+export function parseDialogResults(response: unknown): DialogResult[] {
+  const json =
+    typeof response === 'string' && response.startsWith(RESPONSE_PREFIX)
+      ? response.slice(RESPONSE_PREFIX.length)
+      : response;
+  const data = typeof json === 'string' ? JSON.parse(json) : json;
+  const results = (data as Record<string, unknown> | null)?.['oslc:results'];
+  if (!Array.isArray(results)) {
+    throw new Error('Not an OSLC dialog response, it has no oslc:results');
+  }
+  return results.flatMap((result: Record<string, unknown>) => {
+    const uri = result?.['rdf:resource'];
+    if (typeof uri !== 'string') return [];
+    const label = result['oslc:label'];
+    return [{ uri, label: typeof label === 'string' ? label : undefined }];
+  });
+}
+
+/**
+ * Wait for a dialog loaded with the postMessage protocol to post its
+ * results. Messages from other origins or windows, and messages that don't
+ * start with oslc-response:, are ignored.
+ *
+ * @param {MessageTarget} target - the window the dialog posts to, usually the page's window
+ * @param {DialogResultOptions} options - the dialog's origin and window, a signal and a timeout to stop waiting
+ * @returns {Promise<DialogResult[]>} the chosen or created resources, none if the user cancelled
+ * @throws {Error} if the dialog posts a response that isn't valid
+ * @throws {TimeoutError} if the dialog posts no response within the timeout
+ */
+export function receiveDialogResults(
+  target: MessageTarget,
+  options: DialogResultOptions
+): Promise<DialogResult[]> {
+  const { origin, source, signal, timeout } = options;
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const stop = () => {
+      target.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
+      clearTimeout(timer);
+    };
+    const onMessage = (event: DialogMessageEvent) => {
+      if (event.origin !== origin || (source !== undefined && event.source !== source)) return;
+      if (typeof event.data !== 'string' || !event.data.startsWith(RESPONSE_PREFIX)) return;
+      stop();
+      try {
+        resolve(parseDialogResults(event.data));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    const onAbort = () => {
+      stop();
+      reject(signal!.reason);
+    };
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    target.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort);
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        stop();
+        reject(new TimeoutError(`The dialog posted no results within ${timeout}ms`));
+      }, timeout);
+    }
+  });
+}
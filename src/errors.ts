@@ -0,0 +1,201 @@
+/*
+ * Typed errors for failed OSLC requests
+ */
+
+import type { AxiosResponse } from 'axios';
+import * as $rdf from 'rdflib';
+import type { Quad_Subject } from 'rdflib/lib/tf-types';
+import { oslc, rdf } from './namespaces.js';
+import type { OSLCErrorDetails, OSLCErrorOptions, ShapeViolation } from './types.js';
+
+// Content types $rdf.parse can read an oslc:Error from
+const RDF_CONTENT_TYPES = ['application/rdf+xml', 'text/turtle', 'application/ld+json', 'application/n-triples'];
+
+/**
+ * Read the oslc:Error resource, and its oslc:ExtendedError if any, from an
+ * RDF error response body
+ *
+ * @param {unknown} body - the response body
+ * @param {string} contentType - the response Content-Type
+ * @param {string} baseURI - the URL of the failed request
+ * @returns {OSLCErrorDetails|undefined} the error details, or undefined if the body has none
+ */
+export function parseOSLCError(body: unknown, contentType: string, baseURI: string): OSLCErrorDetails | undefined {
+  const mimeType = RDF_CONTENT_TYPES.find((type) => contentType?.includes(type));
+  if (typeof body !== 'string' || !mimeType) {
+    return undefined;
+  }
+  const store = $rdf.graph();
+  try {
+    $rdf.parse(body, store, baseURI, mimeType);
+  } catch {
+    return undefined;
+  }
+  // Servers don't always type the error resource
+  const subject = (store.any(undefined, rdf('type'), oslc('Error')) ??
+    store.statementsMatching(undefined, oslc('statusCode'), undefined)[0]?.subject ??
+    store.statementsMatching(undefined, oslc('message'), undefined)[0]?.subject) as Quad_Subject | undefined;
+  if (!subject) {
+    return undefined;
+  }
+  const details: OSLCErrorDetails = {
+    statusCode: store.any(subject, oslc('statusCode'))?.value,
+    message: store.any(subject, oslc('message'))?.value,
+  };
+  const extendedError = store.any(subject, oslc('extendedError')) as Quad_Subject | null;
+  if (extendedError) {
+    details.moreInfo = store.any(extendedError, oslc('moreInfo'))?.value;
+    details.rel = store.any(extendedError, oslc('rel'))?.value;
+    details.hintWidth = store.any(extendedError, oslc('hintWidth'))?.value;
+    details.hintHeight = store.any(extendedError, oslc('hintHeight'))?.value;
+  }
+  return details;
+}
+
+/**
+ * Base class for all errors raised by OSLCClient operations. Carries the
+ * HTTP status, request method and URL, and the parsed oslc:Error details
+ * when the server provided them.
+ * @class
+ * @param {string} message - the error message
+ * @param {OSLCErrorOptions} options - details of the failed request
+ */
+export class OSLCError extends Error {
+  readonly status?: number;
+  readonly url?: string;
+  readonly method?: string;
+  readonly details?: OSLCErrorDetails;
+  readonly body?: unknown;
+
+  constructor(message: string, options: OSLCErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.url = options.url;
+    this.method = options.method?.toUpperCase();
+    this.details = options.details;
+    this.body = options.body;
+  }
+
+  /**
+   * Create the OSLCError subclass matching a failed response
+   *
+   * @param {AxiosResponse} response - the failed response
+   * @param {unknown} cause - the underlying error, if any
+   * @returns {OSLCError} the typed error
+   */
+  static fromResponse(response: AxiosResponse, cause?: unknown): OSLCError {
+    const url = response.config?.url;
+    const method = response.config?.method?.toUpperCase() ?? 'GET';
+    const details = parseOSLCError(response.data, response.headers?.['content-type'], url ?? '');
+    const options: OSLCErrorOptions = { status: response.status, url, method, details, body: response.data, cause };
+    const message = `${method} ${url} failed with status ${response.status}${details?.message ? `: ${details.message}` : ''}`;
+    switch (response.status) {
+      case 401:
+        return new AuthenticationError(message, options);
+      case 403:
+        return new ForbiddenError(message, options);
+      case 404:
+      case 410:
+        return new NotFoundError(message, options);
+      case 409:
+        return new ConflictError(message, options);
+      case 412:
+        return new PreconditionFailedError(message, options);
+      default:
+        return new OSLCError(message, options);
+    }
+  }
+}
+
+/**
+ * Did a Compact request fail because the server has no OSLC Compact support,
+ * so the resource itself should be fetched instead? Not when the resource is
+ * missing, forbidden or the call was aborted.
+ *
+ * @param {unknown} error - why the Compact request failed
+ * @returns {boolean} true if the resource may still be available
+ */
+export function isCompactUnsupported(error: unknown): boolean {
+  return (
+    error instanceof OSLCError &&
+    !(error instanceof AuthenticationError) &&
+    !(error instanceof ForbiddenError) &&
+    !(error instanceof NotFoundError) &&
+    !(error instanceof AbortError)
+  );
+}
+
+/**
+ * The server still challenges the request after every authentication strategy was tried
+ */
+export class AuthenticationError extends OSLCError {}
+
+/**
+ * The authenticated user may not access the resource (403)
+ */
+export class ForbiddenError extends OSLCError {}
+
+/**
+ * The resource, or a discovery step such as a service provider, does not exist (404, 410)
+ */
+export class NotFoundError extends OSLCError {}
+
+/**
+ * The request conflicts with the current state of the resource (409)
+ */
+export class ConflictError extends OSLCError {}
+
+/**
+ * The If-Match ETag no longer matches, the resource was changed by someone else (412)
+ */
+export class PreconditionFailedError extends OSLCError {}
+
+/**
+ * The operation was cancelled through its AbortSignal
+ */
+export class AbortError extends OSLCError {}
+
+/**
+ * The operation did not complete within its timeout
+ */
+export class TimeoutError extends AbortError {}
+
+/**
+ * The query capability rejected a query, typically because of invalid oslc.where or oslc.select syntax
+ */
+export class QueryError extends OSLCError {}
+
+/**
+ * An oslc.where, oslc.select, oslc.orderBy or oslc.prefix clause is not valid OSLC query syntax
+ * @class
+ * @param {string} message - the error message
+ * @param {string} input - the clause
+ * @param {number} position - the offset of the error in the clause
+ */
+export class QuerySyntaxError extends QueryError {
+  readonly input: string;
+  readonly position: number;
+
+  constructor(message: string, input: string, position: number) {
+    super(`${message} at position ${position} of ${input}`);
+    this.input = input;
+    this.position = position;
+  }
+}
+
+/**
+ * The resource doesn't match its ResourceShape, so it was not sent
+ * @class
+ * @param {string} message - the error message
+ * @param {ShapeViolation[]} violations - how the resource doesn't match the shape
+ * @param {OSLCErrorOptions} options - the shape and the resource
+ */
+export class ValidationError extends OSLCError {
+  readonly violations: ShapeViolation[];
+
+  constructor(message: string, violations: ShapeViolation[], options: OSLCErrorOptions = {}) {
+    super(message, options);
+    this.violations = violations;
+  }
+}
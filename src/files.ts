@@ -0,0 +1,13 @@
+/*
+ * Helpers for the file-backed stores
+ */
+
+/**
+ * Did a file operation fail because the file doesn't exist?
+ *
+ * @param {unknown} error - what the operation threw
+ * @returns {boolean} true for ENOENT
+ */
+export function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -17,7 +17,41 @@ export { default as OSLCResource } from './OSLCResource.js';
 export { default as RootServices } from './RootServices.js';
 export { default as ServiceProviderCatalog } from './ServiceProviderCatalog.js';
 export { default as ServiceProvider } from './ServiceProvider.js';
+export { Service, Capability, QueryCapability, CreationFactory, Dialog, Publisher } from './services.js';
+export { default as ResourceShape } from './ResourceShape.js';
+export { default as PropertyDefinition } from './PropertyDefinition.js';
+export { validateResource } from './validation.js';
+export { parseDialogResults, receiveDialogResults } from './dialogs.js';
+export { default as QueryBuilder } from './QueryBuilder.js';
+export {
+  parseQuery,
+  parseWhere,
+  parseSelect,
+  parseOrderBy,
+  parsePrefixes,
+  parseSearchTerms,
+  splitSearchText,
+  serializeQuery,
+  serializeWhere,
+  serializeSelect,
+  serializeOrderBy,
+  serializeSearchTerms,
+} from './query.js';
 export { default as Compact } from './Compact.js';
+export { default as LinkPreviewResolver } from './LinkPreviewResolver.js';
+export { default as FormAuthStrategy } from './FormAuthStrategy.js';
+export { default as JauthAuthStrategy } from './JauthAuthStrategy.js';
+export { default as BasicAuthStrategy } from './BasicAuthStrategy.js';
+export { default as OAuth1AuthStrategy } from './OAuth1AuthStrategy.js';
+export { default as OIDCAuthStrategy } from './OIDCAuthStrategy.js';
+export { default as FileSessionStore } from './FileSessionStore.js';
+export { default as MemoryDiscoveryCache } from './MemoryDiscoveryCache.js';
+export { default as FileDiscoveryCache } from './FileDiscoveryCache.js';
+export { default as AxiosTransport } from './AxiosTransport.js';
+export { default as FetchTransport } from './FetchTransport.js';
+
+// Export error classes
+export * from './errors.js';
 
 // Export namespaces
 export * from './namespaces.js';
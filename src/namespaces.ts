@@ -36,9 +36,45 @@ export const oslc_qm = Namespace('http://open-services.net/ns/qm#');
 export const rqm_qm = Namespace('http://jazz.net/ns/qm/rqm#');
 export const rqm_process = Namespace('http://jazz.net/xmlns/prod/jazz/rqm/process/1.0/');
 export const oslc_qm1 = Namespace('http://open-services.net/xmlns/qm/1.0/');
+export const oslc_am = Namespace('http://open-services.net/ns/am#');
+export const oslc_auto = Namespace('http://open-services.net/ns/auto#');
+export const oslc_config = Namespace('http://open-services.net/ns/config#');
 export const atom = Namespace('http://www.w3.org/2005/Atom');
 export const xml = Namespace('http://www.w3.org/1999/02/22-rdf-syntax-ns#');
 export const rss = Namespace('http://purl.org/rss/1.0/');
-export const xsd = Namespace('http://www.w3.org/TR/2004/REC-xmlschema-2-20041028/#dt-');
+export const xsd = Namespace('http://www.w3.org/2001/XMLSchema#');
 export const contact = Namespace('http://www.w3.org/2000/10/swap/pim/contact#');
 export const jd = Namespace('http://jazz.net/xmlns/prod/jazz/discovery/1.0/');
+export const jfs = Namespace('http://jazz.net/xmlns/prod/jazz/jfs/1.0/');
+export const ldp = Namespace('http://www.w3.org/ns/ldp#');
+
+// The namespaces above by their conventional prefix, for oslc.prefix
+export const namespacePrefixes: Record<string, string> = Object.fromEntries(
+  Object.entries({
+    rdf,
+    rdfs,
+    dcterms,
+    foaf,
+    owl,
+    oslc,
+    oslc_rm,
+    oslc_cm,
+    oslc_cm1,
+    rtc_cm,
+    rtc_ext,
+    rtc_cm_ext,
+    oslc_qm,
+    rqm_qm,
+    rqm_process,
+    oslc_qm1,
+    oslc_am,
+    oslc_auto,
+    oslc_config,
+    rss,
+    xsd,
+    contact,
+    jd,
+    jfs,
+    ldp,
+  }).map(([prefix, namespace]) => [prefix, namespace('').value])
+);
@@ -0,0 +1,502 @@
+/*
+ * OSLC query syntax: parsing oslc.where, oslc.select, oslc.orderBy,
+ * oslc.searchTerms and oslc.prefix into a syntax tree, and writing the tree
+ * back with the prefixes it uses
+ */
+
+import type { NamedNode } from 'rdflib/lib/tf-types';
+import { namespacePrefixes } from './namespaces.js';
+import { QueryError, QuerySyntaxError } from './errors.js';
+import type {
+  OrderByTerm,
+  QueryAST,
+  QueryComparisonOperator,
+  QueryLiteral,
+  QueryParams,
+  QueryValue,
+  SelectTerm,
+  WhereTerm,
+} from './types.js';
+
+const PREFIXED_NAME = /^([A-Za-z_][\w.-]*)?:[\w.%-]*$/;
+const LOCAL_NAME = /^[\w.%-]*$/;
+// Longest first, so <= is not read as < followed by =
+const COMPARISON_OPERATORS: QueryComparisonOperator[] = ['!=', '<=', '>=', '=', '<', '>'];
+
+/**
+ * Reads a clause, remembering the prefixes it uses and where
+ */
+class Scanner {
+  readonly input: string;
+  position = 0;
+  readonly prefixes: Array<{ prefix: string; position: number }> = [];
+
+  constructor(input: string) {
+    this.input = input;
+  }
+
+  error(message: string, position = this.position): QuerySyntaxError {
+    return new QuerySyntaxError(message, this.input, position);
+  }
+
+  skipSpaces(): void {
+    while (/\s/.test(this.input[this.position] ?? '')) this.position++;
+  }
+
+  // Read a pattern at the current position, or return undefined
+  match(pattern: RegExp): string | undefined {
+    const sticky = new RegExp(pattern.source, 'y');
+    sticky.lastIndex = this.position;
+    const found = sticky.exec(this.input)?.[0];
+    if (found !== undefined) this.position += found.length;
+    return found;
+  }
+
+  eat(text: string): boolean {
+    if (!this.input.startsWith(text, this.position)) return false;
+    this.position += text.length;
+    return true;
+  }
+
+  expect(text: string): void {
+    this.skipSpaces();
+    if (!this.eat(text)) {
+      throw this.error(this.atEnd() ? `Expected ${text} but the clause ended` : `Expected ${text}`);
+    }
+  }
+
+  atEnd(): boolean {
+    return this.position >= this.input.length;
+  }
+
+  end(): void {
+    this.skipSpaces();
+    if (!this.atEnd()) throw this.error(`Unexpected ${this.input[this.position]}`);
+  }
+
+  prefixedName(): string {
+    this.skipSpaces();
+    const position = this.position;
+    const name = this.match(/(?:[A-Za-z_][\w.-]*)?:[\w.%-]*/);
+    if (name === undefined) throw this.error('Expected a prefixed name such as dcterms:title');
+    this.prefixes.push({ prefix: name.slice(0, name.indexOf(':')), position });
+    return name;
+  }
+
+  property(): string {
+    this.skipSpaces();
+    return this.eat('*') ? '*' : this.prefixedName();
+  }
+
+  // Check the prefixes used are declared
+  checkPrefixes(prefixes?: Record<string, string>): void {
+    const unknown = prefixes && this.prefixes.find(({ prefix }) => prefixes[prefix] === undefined);
+    if (unknown) throw this.error(`Unknown prefix ${unknown.prefix}`, unknown.position);
+  }
+}
+
+function parseLiteral(scanner: Scanner): QueryLiteral {
+  scanner.skipSpaces();
+  const start = scanner.position;
+  if (scanner.eat('<')) {
+    const uri = scanner.match(/[^>\s]*/)!;
+    if (!scanner.eat('>')) throw scanner.error('Expected > to end the URI reference');
+    return { kind: 'uri', uri };
+  }
+  if (scanner.eat('"')) {
+    let value = '';
+    for (;;) {
+      const char = scanner.input[scanner.position++];
+      if (char === undefined) throw scanner.error('Unterminated string', start);
+      if (char === '"') break;
+      if (char === '\\') {
+        const escaped = scanner.input[scanner.position++];
+        if (escaped !== '"' && escaped !== '\\') {
+          throw scanner.error('Only \\" and \\\\ may be escaped', scanner.position - 2);
+        }
+        value += escaped;
+      } else {
+        value += char;
+      }
+    }
+    if (scanner.eat('^^')) return { kind: 'string', value, datatype: scanner.prefixedName() };
+    if (scanner.eat('@')) {
+      const language = scanner.match(/[A-Za-z]+(?:-[A-Za-z0-9]+)*/);
+      if (!language) throw scanner.error('Expected a language tag');
+      return { kind: 'string', value, language };
+    }
+    return { kind: 'string', value };
+  }
+  const boolean = scanner.match(/(?:true|false)(?![\w:])/);
+  if (boolean) return { kind: 'boolean', value: boolean === 'true' };
+  const decimal = scanner.match(/[+-]?(?:\d+(?:\.\d*)?|\.\d+)/);
+  if (decimal) return { kind: 'decimal', value: decimal };
+  throw scanner.error('Expected a value: a "string", <URI>, number, true or false');
+}
+
+function parseWhereTerms(scanner: Scanner): WhereTerm[] {
+  const terms: WhereTerm[] = [];
+  do {
+    const property = scanner.property();
+    scanner.skipSpaces();
+    if (scanner.eat('{')) {
+      terms.push({ kind: 'scoped', property, terms: parseWhereTerms(scanner) });
+      scanner.expect('}');
+    } else if (scanner.match(/in(?=[\s[])/)) {
+      scanner.expect('[');
+      const values = [parseLiteral(scanner)];
+      for (scanner.skipSpaces(); scanner.eat(','); scanner.skipSpaces()) {
+        values.push(parseLiteral(scanner));
+      }
+      scanner.expect(']');
+      terms.push({ kind: 'in', property, values });
+    } else {
+      const operator = COMPARISON_OPERATORS.find((candidate) => scanner.eat(candidate));
+      if (!operator) throw scanner.error('Expected a comparison operator, in or {');
+      terms.push({ kind: 'comparison', property, operator, value: parseLiteral(scanner) });
+    }
+    scanner.skipSpaces();
+  } while (scanner.match(/and(?=\s)/));
+  return terms;
+}
+
+function parseSelectTerms(scanner: Scanner): SelectTerm[] {
+  const terms: SelectTerm[] = [];
+  do {
+    const term: SelectTerm = { property: scanner.property() };
+    scanner.skipSpaces();
+    if (scanner.eat('{')) {
+      term.nested = parseSelectTerms(scanner);
+      scanner.expect('}');
+    }
+    terms.push(term);
+    scanner.skipSpaces();
+  } while (scanner.eat(','));
+  return terms;
+}
+
+function parseOrderByTerms(scanner: Scanner): OrderByTerm[] {
+  const terms: OrderByTerm[] = [];
+  do {
+    scanner.skipSpaces();
+    const sign = scanner.match(/[+-]/);
+    const property = scanner.prefixedName();
+    if (sign) {
+      terms.push({ property, direction: sign === '+' ? 'asc' : 'desc' });
+    } else {
+      scanner.expect('{');
+      terms.push({ property, terms: parseOrderByTerms(scanner) });
+      scanner.expect('}');
+    }
+    scanner.skipSpaces();
+  } while (scanner.eat(','));
+  return terms;
+}
+
+/**
+ * Parse an oslc.where clause
+ *
+ * @param {string} where - the clause, e.g. dcterms:creator{foaf:name="Bob"} and oslc_cm:status in ["Open","New"]
+ * @param {Record<string, string>} prefixes - if given, the prefixes the clause may use
+ * @returns {WhereTerm[]} the terms, joined with and
+ * @throws {QuerySyntaxError} if the clause is not valid
+ */
+export function parseWhere(where: string, prefixes?: Record<string, string>): WhereTerm[] {
+  const scanner = new Scanner(where);
+  const terms = parseWhereTerms(scanner);
+  scanner.end();
+  scanner.checkPrefixes(prefixes);
+  return terms;
+}
+
+/**
+ * Parse an oslc.select clause
+ *
+ * @param {string} select - the clause, e.g. dcterms:title,dcterms:creator{foaf:name}
+ * @param {Record<string, string>} prefixes - if given, the prefixes the clause may use
+ * @returns {SelectTerm[]} the properties
+ * @throws {QuerySyntaxError} if the clause is not valid
+ */
+export function parseSelect(select: string, prefixes?: Record<string, string>): SelectTerm[] {
+  const scanner = new Scanner(select);
+  const terms = parseSelectTerms(scanner);
+  scanner.end();
+  scanner.checkPrefixes(prefixes);
+  return terms;
+}
+
+/**
+ * Parse an oslc.orderBy clause
+ *
+ * @param {string} orderBy - the clause, e.g. -dcterms:modified,+dcterms:title
+ * @param {Record<string, string>} prefixes - if given, the prefixes the clause may use
+ * @returns {OrderByTerm[]} the sort keys, most significant first
+ * @throws {QuerySyntaxError} if the clause is not valid
+ */
+export function parseOrderBy(orderBy: string, prefixes?: Record<string, string>): OrderByTerm[] {
+  const scanner = new Scanner(orderBy);
+  const terms = parseOrderByTerms(scanner);
+  scanner.end();
+  scanner.checkPrefixes(prefixes);
+  return terms;
+}
+
+/**
+ * Parse an oslc.prefix clause
+ *
+ * @param {string} prefix - the clause, e.g. dcterms=<http://purl.org/dc/terms/>
+ * @returns {Record<string, string>} the namespace URIs by prefix
+ * @throws {QuerySyntaxError} if the clause is not valid
+ */
+export function parsePrefixes(prefix: string): Record<string, string> {
+  const scanner = new Scanner(prefix);
+  const prefixes: Record<string, string> = {};
+  do {
+    scanner.skipSpaces();
+    const name = scanner.match(/[A-Za-z_][\w.-]*/) ?? '';
+    scanner.expect('=');
+    scanner.skipSpaces();
+    const namespace = parseLiteral(scanner);
+    if (namespace.kind !== 'uri') throw scanner.error(`Expected the <URI> of prefix ${name}`);
+    prefixes[name] = namespace.uri;
+    scanner.skipSpaces();
+  } while (scanner.eat(','));
+  scanner.end();
+  return prefixes;
+}
+
+/**
+ * Parse an oslc.searchTerms clause
+ *
+ * @param {string} searchTerms - the clause, e.g. "login","time out"
+ * @returns {string[]} the terms
+ * @throws {QuerySyntaxError} if the clause is not valid
+ */
+export function parseSearchTerms(searchTerms: string): string[] {
+  const scanner = new Scanner(searchTerms);
+  const terms: string[] = [];
+  do {
+    scanner.skipSpaces();
+    const position = scanner.position;
+    const term = parseLiteral(scanner);
+    if (term.kind !== 'string' || term.datatype || term.language) {
+      throw scanner.error('Expected a "string" search term', position);
+    }
+    terms.push(term.value);
+    scanner.skipSpaces();
+  } while (scanner.eat(','));
+  scanner.end();
+  return terms;
+}
+
+/**
+ * Split what a user typed in a search box into search terms: words, or
+ * phrases in double quotes. A phrase missing its closing quote runs to the
+ * end of the text.
+ *
+ * @param {string} text - e.g. login "time out"
+ * @returns {string[]} the terms, e.g. login and time out
+ */
+export function splitSearchText(text: string): string[] {
+  return [...text.matchAll(/"([^"]*)(?:"|$)|([^\s"]+)/g)]
+    .map(([, phrase, word]) => (phrase ?? word).trim())
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Parse the clauses of an OSLC query, for instance to validate a query a
+ * user entered. The clauses may use the prefixes in oslc.prefix and those
+ * of namespaces.ts.
+ *
+ * @param {QueryParams} query - the clauses
+ * @returns {QueryAST} the syntax tree
+ * @throws {QuerySyntaxError} if a clause is not valid or uses an unknown prefix
+ */
+export function parseQuery(query: QueryParams): QueryAST {
+  const declared = query.prefix ? parsePrefixes(query.prefix) : {};
+  const prefixes = { ...namespacePrefixes, ...declared };
+  const ast: QueryAST = { prefixes: declared };
+  if (query.select) ast.select = parseSelect(query.select, prefixes);
+  if (query.where) ast.where = parseWhere(query.where, prefixes);
+  if (query.orderBy) ast.orderBy = parseOrderBy(query.orderBy, prefixes);
+  if (query.searchTerms) ast.searchTerms = parseSearchTerms(query.searchTerms);
+  return ast;
+}
+
+/**
+ * Write a value of an oslc.where clause, escaping strings
+ *
+ * @param {QueryLiteral} literal - the value
+ */
+export function serializeLiteral(literal: QueryLiteral): string {
+  switch (literal.kind) {
+    case 'uri':
+      if (/[<>"\s]/.test(literal.uri)) throw new QueryError(`${literal.uri} is not a valid URI reference`);
+      return `<${literal.uri}>`;
+    case 'string': {
+      const value = `"${literal.value.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+      if (literal.datatype) return `${value}^^${literal.datatype}`;
+      return literal.language ? `${value}@${literal.language}` : value;
+    }
+    case 'decimal':
+      return literal.value;
+    case 'boolean':
+      return String(literal.value);
+  }
+}
+
+/**
+ * Write an oslc.where clause
+ *
+ * @param {WhereTerm[]} terms - the terms, joined with and
+ */
+export function serializeWhere(terms: WhereTerm[]): string {
+  return terms
+    .map((term) => {
+      switch (term.kind) {
+        case 'comparison':
+          return `${term.property}${term.operator}${serializeLiteral(term.value)}`;
+        case 'in':
+          return `${term.property} in [${term.values.map(serializeLiteral).join(',')}]`;
+        case 'scoped':
+          return `${term.property}{${serializeWhere(term.terms)}}`;
+      }
+    })
+    .join(' and ');
+}
+
+/**
+ * Write an oslc.select clause
+ *
+ * @param {SelectTerm[]} terms - the properties
+ */
+export function serializeSelect(terms: SelectTerm[]): string {
+  return terms
+    .map((term) => (term.nested?.length ? `${term.property}{${serializeSelect(term.nested)}}` : term.property))
+    .join(',');
+}
+
+/**
+ * Write an oslc.orderBy clause
+ *
+ * @param {OrderByTerm[]} terms - the sort keys, most significant first
+ */
+export function serializeOrderBy(terms: OrderByTerm[]): string {
+  return terms
+    .map((term) =>
+      'direction' in term
+        ? `${term.direction === 'asc' ? '+' : '-'}${term.property}`
+        : `${term.property}{${serializeOrderBy(term.terms)}}`
+    )
+    .join(',');
+}
+
+/**
+ * Write an oslc.searchTerms clause, escaping the terms
+ *
+ * @param {string[]} terms - the terms
+ */
+export function serializeSearchTerms(terms: string[]): string {
+  return terms.map((value) => serializeLiteral({ kind: 'string', value })).join(',');
+}
+
+// The prefixes of the properties and datatypes a query uses
+function usedPrefixes(ast: QueryAST): Set<string> {
+  const used = new Set<string>();
+  const add = (name?: string) => {
+    if (name && name !== '*') used.add(name.slice(0, name.indexOf(':')));
+  };
+  const where = (terms: WhereTerm[]) => {
+    for (const term of terms) {
+      add(term.property);
+      if (term.kind === 'scoped') where(term.terms);
+      const values = term.kind === 'comparison' ? [term.value] : term.kind === 'in' ? term.values : [];
+      for (const value of values) if (value.kind === 'string') add(value.datatype);
+    }
+  };
+  const select = (terms: SelectTerm[]) => terms.forEach((term) => (add(term.property), select(term.nested ?? [])));
+  const orderBy = (terms: OrderByTerm[]) =>
+    terms.forEach((term) => (add(term.property), 'terms' in term && orderBy(term.terms)));
+  where(ast.where ?? []);
+  select(ast.select ?? []);
+  orderBy(ast.orderBy ?? []);
+  return used;
+}
+
+/**
+ * Write the clauses of an OSLC query, declaring in oslc.prefix every prefix
+ * the query uses, from the query's own prefixes or else namespaces.ts
+ *
+ * @param {QueryAST} ast - the syntax tree
+ * @returns {QueryParams} the clauses to send
+ * @throws {QueryError} if the query uses an unknown prefix
+ */
+export function serializeQuery(ast: QueryAST): QueryParams {
+  const declarations = [...usedPrefixes(ast)].map((prefix) => {
+    const namespace = ast.prefixes[prefix] ?? namespacePrefixes[prefix];
+    if (namespace === undefined) throw new QueryError(`Unknown prefix ${prefix}, declare it with prefix()`);
+    return `${prefix}=<${namespace}>`;
+  });
+  const query: QueryParams = {};
+  if (declarations.length) query.prefix = declarations.join(',');
+  if (ast.select?.length) query.select = serializeSelect(ast.select);
+  if (ast.where?.length) query.where = serializeWhere(ast.where);
+  if (ast.orderBy?.length) query.orderBy = serializeOrderBy(ast.orderBy);
+  if (ast.searchTerms?.length) query.searchTerms = serializeSearchTerms(ast.searchTerms);
+  return query;
+}
+
+/**
+ * Get the prefixed name of a property or datatype. A URI in none of the
+ * known namespaces gets a new prefix, ns1, ns2, ..., added to the prefixes.
+ *
+ * @param {string|NamedNode} name - a prefixed name, which is returned as is, * or a URI
+ * @param {Record<string, string>} prefixes - the query's own prefixes, searched before namespaces.ts
+ * @returns {string} the prefixed name
+ */
+export function prefixedName(name: string | NamedNode, prefixes: Record<string, string>): string {
+  if (typeof name === 'string' && (name === '*' || PREFIXED_NAME.test(name))) {
+    return name;
+  }
+  const uri = typeof name === 'string' ? name : name.value;
+  let best: [string, string] | undefined;
+  for (const [prefix, namespace] of [...Object.entries(prefixes), ...Object.entries(namespacePrefixes)]) {
+    if (uri.startsWith(namespace) && LOCAL_NAME.test(uri.slice(namespace.length))) {
+      if (!best || namespace.length > best[1].length) best = [prefix, namespace];
+    }
+  }
+  if (best) {
+    return `${best[0]}:${uri.slice(best[1].length)}`;
+  }
+  const split = Math.max(uri.lastIndexOf('#'), uri.lastIndexOf('/')) + 1;
+  if (split === 0 || !LOCAL_NAME.test(uri.slice(split))) {
+    throw new QueryError(`${uri} cannot be written as a prefixed name`);
+  }
+  let count = 1;
+  while (prefixes[`ns${count}`] !== undefined) count++;
+  prefixes[`ns${count}`] = uri.slice(0, split);
+  return `ns${count}:${uri.slice(split)}`;
+}
+
+/**
+ * Turn a JavaScript value into a value of an oslc.where clause
+ *
+ * @param {QueryValue} value - the value: NamedNodes and URLs become URI references, Dates xsd:dateTime strings
+ * @returns {QueryLiteral} the literal
+ */
+export function toQueryLiteral(value: QueryValue): QueryLiteral {
+  if (typeof value === 'string') return { kind: 'string', value };
+  if (typeof value === 'boolean') return { kind: 'boolean', value };
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new QueryError(`${value} cannot be used in a query`);
+    const lexical = String(value);
+    // Very large and small numbers are written with an exponent, which only xsd:double allows
+    return /e/i.test(lexical)
+      ? { kind: 'string', value: lexical, datatype: 'xsd:double' }
+      : { kind: 'decimal', value: lexical };
+  }
+  if (value instanceof Date) return { kind: 'string', value: value.toISOString(), datatype: 'xsd:dateTime' };
+  if (value instanceof URL) return { kind: 'uri', uri: value.href };
+  if ('termType' in value) return { kind: 'uri', uri: value.value };
+  return value;
+}
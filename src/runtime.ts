@@ -0,0 +1,39 @@
+/*
+ * Runtime detection, evaluated when needed rather than when modules load so
+ * the client can be bundled for browsers and edge runtimes
+ */
+
+import type { CookieJar } from 'tough-cookie';
+
+interface RuntimeGlobals {
+  window?: unknown;
+  process?: { versions?: { node?: string } };
+}
+
+/**
+ * Is the client running in a browser page, where the browser keeps cookies?
+ */
+export function isBrowser(): boolean {
+  return typeof (globalThis as RuntimeGlobals).window !== 'undefined';
+}
+
+/**
+ * Is the client running in Node.js, or a runtime compatible with its http module?
+ */
+export function isNode(): boolean {
+  return typeof (globalThis as RuntimeGlobals).process?.versions?.node === 'string';
+}
+
+/**
+ * The cookie jar a transport should keep its cookies in
+ *
+ * @param {CookieJar} jar - a jar given by the application, if any
+ * @returns the given jar, a new jar, or undefined in browsers
+ */
+export async function createCookieJar(jar?: CookieJar): Promise<CookieJar | undefined> {
+  if (jar || isBrowser()) {
+    return jar;
+  }
+  const { CookieJar } = await import('tough-cookie');
+  return new CookieJar();
+}
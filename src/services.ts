@@ -0,0 +1,224 @@
+/*
+ * The services a ServiceProvider offers: its query capabilities, creation
+ * factories and delegated dialogs, and its publisher
+ */
+
+import type { IndexedFormula } from 'rdflib';
+import type { NamedNode, Quad_Subject } from 'rdflib/lib/tf-types';
+import { dcterms, oslc } from './namespaces.js';
+import type { CapabilityFilter, DialogProtocol } from './types.js';
+
+// The oslc:usage of the capability to use when a client has no other preference
+export const DEFAULT_USAGE = oslc('default').value;
+
+// The oslc:usage values a query capability advertises oslc.searchTerms support with
+export const FULL_TEXT_SEARCH_USAGES = [oslc('fullTextSearch').value, oslc('searchTerms').value];
+
+/**
+ * Does a type or usage URI match a wanted one? A NamedNode or an absolute
+ * URI must match exactly, other strings match the URI's local name.
+ *
+ * @param {string} uri - the oslc:resourceType or oslc:usage URI
+ * @param {string|NamedNode} wanted - the wanted type or usage
+ */
+export function matchesURI(uri: string, wanted: string | NamedNode): boolean {
+  if (typeof wanted !== 'string' || /^[a-z][a-z0-9+.-]*:/i.test(wanted)) {
+    return uri === (typeof wanted === 'string' ? wanted : wanted.value);
+  }
+  return uri.endsWith(`#${wanted}`) || uri.endsWith(`/${wanted}`);
+}
+
+/**
+ * A resource described in a ServiceProvider document, often a blank node
+ * @class
+ * @param {Quad_Subject} node - the resource
+ * @param {IndexedFormula} store - the service provider's RDF graph
+ */
+abstract class ServiceResource {
+  readonly node: Quad_Subject;
+  readonly title?: string;
+
+  constructor(node: Quad_Subject, store: IndexedFormula) {
+    this.node = node;
+    this.title = store.any(node, dcterms('title'))?.value?.trim();
+  }
+
+  getURI(): string {
+    return this.node.value;
+  }
+
+  protected static values(store: IndexedFormula, node: Quad_Subject, property: NamedNode): string[] {
+    return store.each(node, property).map((value) => value.value);
+  }
+}
+
+/**
+ * A query capability, creation factory or dialog of a Service
+ * @class
+ * @param {Quad_Subject} node - the capability
+ * @param {IndexedFormula} store - the service provider's RDF graph
+ * @param {Service} service - the service offering the capability
+ */
+export abstract class Capability extends ServiceResource {
+  readonly service: Service;
+  readonly label?: string;
+  readonly usages: string[];
+  readonly resourceTypes: string[];
+
+  constructor(node: Quad_Subject, store: IndexedFormula, service: Service) {
+    super(node, store);
+    this.service = service;
+    this.label = store.any(node, oslc('label'))?.value;
+    this.usages = ServiceResource.values(store, node, oslc('usage'));
+    this.resourceTypes = ServiceResource.values(store, node, oslc('resourceType'));
+  }
+
+  /**
+   * The oslc:domain of the service offering the capability
+   */
+  get domain(): string | undefined {
+    return this.service.domain;
+  }
+
+  /**
+   * Is this the capability to use by default, for its resource types?
+   */
+  get isDefault(): boolean {
+    return this.usages.includes(DEFAULT_USAGE);
+  }
+
+  /**
+   * Does the capability match all the criteria of a filter?
+   *
+   * @param {CapabilityFilter} filter - the criteria
+   */
+  matches(filter: CapabilityFilter): boolean {
+    const { resourceType, usage, domain, title } = filter;
+    return (
+      (resourceType === undefined || this.resourceTypes.some((type) => matchesURI(type, resourceType))) &&
+      (usage === undefined || this.usages.some((candidate) => matchesURI(candidate, usage))) &&
+      (domain === undefined || this.domain === domain) &&
+      (title === undefined ||
+        (this.title !== undefined && (title instanceof RegExp ? title.test(this.title) : this.title === title)))
+    );
+  }
+}
+
+/**
+ * An oslc:QueryCapability, the query base to query resources of some types
+ * @class
+ */
+export class QueryCapability extends Capability {
+  readonly queryBase?: string;
+  readonly resourceShapes: string[];
+
+  constructor(node: Quad_Subject, store: IndexedFormula, service: Service) {
+    super(node, store, service);
+    this.queryBase = store.any(node, oslc('queryBase'))?.value;
+    this.resourceShapes = ServiceResource.values(store, node, oslc('resourceShape'));
+  }
+
+  /**
+   * Does the capability accept full-text searches with oslc.searchTerms?
+   */
+  get supportsFullTextSearch(): boolean {
+    return this.usages.some((usage) => FULL_TEXT_SEARCH_USAGES.includes(usage));
+  }
+}
+
+/**
+ * An oslc:CreationFactory, the URL to POST new resources of some types to
+ * @class
+ */
+export class CreationFactory extends Capability {
+  readonly creation?: string;
+  readonly resourceShapes: string[];
+
+  constructor(node: Quad_Subject, store: IndexedFormula, service: Service) {
+    super(node, store, service);
+    this.creation = store.any(node, oslc('creation'))?.value;
+    this.resourceShapes = ServiceResource.values(store, node, oslc('resourceShape'));
+  }
+}
+
+/**
+ * An oslc:Dialog, a web page for selecting or creating resources of some types
+ * @class
+ */
+export class Dialog extends Capability {
+  readonly dialog?: string;
+  readonly hintWidth?: string;
+  readonly hintHeight?: string;
+
+  constructor(node: Quad_Subject, store: IndexedFormula, service: Service) {
+    super(node, store, service);
+    this.dialog = store.any(node, oslc('dialog'))?.value;
+    this.hintWidth = store.any(node, oslc('hintWidth'))?.value;
+    this.hintHeight = store.any(node, oslc('hintHeight'))?.value;
+  }
+
+  /**
+   * Get the URL to load the dialog from, with the fragment asking it to
+   * return its results with the given protocol. A fragment the dialog URL
+   * already has is kept, the protocol is added after it.
+   *
+   * @param {DialogProtocol} protocol - how the dialog returns its results, defaults to postMessage
+   * @returns {string} the URL for an iframe or window
+   */
+  getURL(protocol: DialogProtocol = 'postMessage'): string {
+    if (!this.dialog) {
+      throw new Error(`Dialog ${this.title ?? this.getURI()} has no oslc:dialog`);
+    }
+    const url = new URL(this.dialog);
+    // Keep a fragment the dialog page routes with, replacing any protocol it already asks for
+    const fragment = url.hash
+      .slice(1)
+      .split('&')
+      .filter((part) => part && !/^oslc-core-\w+-1\.0$/.test(part));
+    url.hash = [...fragment, `oslc-core-${protocol}-1.0`].join('&');
+    return url.toString();
+  }
+}
+
+/**
+ * An oslc:Publisher, the tool offering a service provider
+ * @class
+ */
+export class Publisher extends ServiceResource {
+  readonly label?: string;
+  readonly identifier?: string;
+  readonly icon?: string;
+
+  constructor(node: Quad_Subject, store: IndexedFormula) {
+    super(node, store);
+    this.label = store.any(node, oslc('label'))?.value;
+    this.identifier = store.any(node, dcterms('identifier'))?.value;
+    this.icon = store.any(node, oslc('icon'))?.value;
+  }
+}
+
+/**
+ * An oslc:Service, the capabilities a service provider offers for a domain
+ * @class
+ * @param {Quad_Subject} node - the service
+ * @param {IndexedFormula} store - the service provider's RDF graph
+ */
+export class Service extends ServiceResource {
+  readonly domain?: string;
+  readonly usages: string[];
+  readonly queryCapabilities: QueryCapability[];
+  readonly creationFactories: CreationFactory[];
+  readonly selectionDialogs: Dialog[];
+  readonly creationDialogs: Dialog[];
+
+  constructor(node: Quad_Subject, store: IndexedFormula) {
+    super(node, store);
+    this.domain = store.any(node, oslc('domain'))?.value;
+    this.usages = ServiceResource.values(store, node, oslc('usage'));
+    const each = (property: NamedNode) => store.each(node, property) as Quad_Subject[];
+    this.queryCapabilities = each(oslc('queryCapability')).map((qc) => new QueryCapability(qc, store, this));
+    this.creationFactories = each(oslc('creationFactory')).map((cf) => new CreationFactory(cf, store, this));
+    this.selectionDialogs = each(oslc('selectionDialog')).map((dialog) => new Dialog(dialog, store, this));
+    this.creationDialogs = each(oslc('creationDialog')).map((dialog) => new Dialog(dialog, store, this));
+  }
+}
@@ -0,0 +1,38 @@
+/*
+ * Cancellation signals for client operations
+ */
+
+import type { RequestOptions } from './types.js';
+
+/**
+ * Combine the caller's signal with the per-call timeout
+ *
+ * @param {RequestOptions} options - the caller's signal and timeout
+ * @returns {AbortSignal|undefined} a signal aborting on either, or undefined if there is neither
+ */
+export function callSignal(options: RequestOptions): AbortSignal | undefined {
+  const signals = [
+    options.signal,
+    options.timeout !== undefined ? AbortSignal.timeout(options.timeout) : undefined,
+  ].filter((signal): signal is AbortSignal => signal !== undefined);
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+/**
+ * Stop waiting for a shared promise when one caller's signal aborts, the
+ * work carries on for the other callers
+ *
+ * @param {Promise} promise - the shared work
+ * @param {AbortSignal} signal - the caller's signal, if any
+ * @param {Function} toError - the error to reject with when the signal aborts
+ * @returns {Promise} the result of the promise, unless the signal aborts first
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, toError: () => Error): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(toError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(toError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
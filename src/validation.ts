@@ -0,0 +1,128 @@
+/*
+ * Checking resources against their OSLC ResourceShape
+ */
+
+import type { Literal, Quad_Object } from 'rdflib/lib/tf-types';
+import type OSLCResource from './OSLCResource.js';
+import type PropertyDefinition from './PropertyDefinition.js';
+import type ResourceShape from './ResourceShape.js';
+import { oslc, rdf, xsd } from './namespaces.js';
+import type { ShapeViolation, ValidationOptions } from './types.js';
+
+// Lexical forms of the literal value types OSLC uses
+const LEXICAL_FORMS: Record<string, RegExp> = {
+  [xsd('boolean').value]: /^(true|false|1|0)$/,
+  [xsd('integer').value]: /^[+-]?\d+$/,
+  [xsd('decimal').value]: /^[+-]?(\d+(\.\d*)?|\.\d+)$/,
+  [xsd('double').value]: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  [xsd('float').value]: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  [xsd('dateTime').value]: /^-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+  [xsd('date').value]: /^-?\d{4,}-\d{2}-\d{2}(Z|[+-]\d{2}:\d{2})?$/,
+};
+
+/**
+ * Why a value doesn't have the property's oslc:valueType, if it doesn't
+ */
+function valueTypeProblem(value: Quad_Object, valueType: string): string | undefined {
+  switch (valueType) {
+    case oslc('Resource').value:
+      return value.termType === 'NamedNode' ? undefined : 'is not a resource URI';
+    case oslc('LocalResource').value:
+      return value.termType === 'BlankNode' ? undefined : 'is not a local resource';
+    case oslc('AnyResource').value:
+      return value.termType === 'NamedNode' || value.termType === 'BlankNode' ? undefined : 'is not a resource';
+  }
+  if (value.termType !== 'Literal') {
+    return 'is a resource, not a literal';
+  }
+  if (valueType === rdf('XMLLiteral').value || valueType === xsd('string').value) {
+    return undefined;
+  }
+  const lexicalForm = LEXICAL_FORMS[valueType];
+  if (lexicalForm && !lexicalForm.test(value.value.trim())) {
+    return `is not a valid ${valueType.slice(xsd('').value.length)}`;
+  }
+  return undefined;
+}
+
+// Identifies a value across graphs, blank nodes only by being one
+function valueKey(value: Quad_Object): string {
+  if (value.termType === 'BlankNode') return 'BlankNode';
+  if (value.termType === 'Literal') {
+    const literal = value as Literal;
+    return `Literal ${literal.datatype?.value} ${literal.language} ${literal.value}`;
+  }
+  return `${value.termType} ${value.value}`;
+}
+
+/**
+ * The violations of one property definition
+ */
+function propertyViolations(
+  resource: OSLCResource,
+  definition: PropertyDefinition,
+  operation: 'create' | 'update',
+  original?: OSLCResource
+): ShapeViolation[] {
+  const violations: ShapeViolation[] = [];
+  const label = definition.name ?? definition.propertyDefinition;
+  const violation = (constraint: ShapeViolation['constraint'], message: string, value?: string) =>
+    violations.push({ property: definition.propertyDefinition, name: definition.name, constraint, message, value });
+  const values = resource.store.each(resource.uri, resource.store.sym(definition.propertyDefinition));
+
+  if (definition.readOnly && operation === 'create') {
+    if (values.length > 0) violation('readOnly', `${label} is read-only`);
+    // The server assigns it
+    return violations;
+  }
+  if (definition.readOnly && original) {
+    const originalValues = original.store
+      .each(original.uri, original.store.sym(definition.propertyDefinition))
+      .map(valueKey)
+      .sort();
+    const keys = values.map(valueKey).sort();
+    if (keys.length !== originalValues.length || keys.some((key, i) => key !== originalValues[i])) {
+      violation('readOnly', `${label} is read-only and was changed`);
+      return violations;
+    }
+  }
+  if (definition.required && values.length === 0) {
+    violation('occurs', `${label} is required`);
+  }
+  if (!definition.multiple && values.length > 1) {
+    violation('occurs', `${label} has ${values.length} values, only one is allowed`);
+  }
+  for (const value of values) {
+    const problem = definition.valueType && valueTypeProblem(value, definition.valueType);
+    if (problem) {
+      violation('valueType', `${label} value ${value.value} ${problem}`, value.value);
+    }
+    if (definition.allowedValues.length > 0 && !definition.allowedValues.includes(value.value)) {
+      violation('allowedValues', `${label} value ${value.value} is not one of the allowed values`, value.value);
+    }
+  }
+  return violations;
+}
+
+/**
+ * Check a resource against a ResourceShape: the number of values of each
+ * property, their value types and allowed values, and that a created
+ * resource doesn't set read-only properties and an updated one keeps their
+ * original values. Properties the shape doesn't define are not checked.
+ *
+ * @param {OSLCResource} resource - the resource to check
+ * @param {ResourceShape} shape - the shape it should match
+ * @param {ValidationOptions} options - whether the resource is to be created or
+ *   updated, and for an update the resource as it was read
+ * @returns {ShapeViolation[]} the violations, none if the resource matches the shape
+ */
+export function validateResource(
+  resource: OSLCResource,
+  shape: ResourceShape,
+  options: ValidationOptions = {}
+): ShapeViolation[] {
+  const operation = options.operation ?? 'create';
+  return shape.properties
+    .filter((definition) => definition.propertyDefinition)
+    .flatMap((definition) => propertyViolations(resource, definition, operation, options.original));
+}